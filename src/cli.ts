@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+/**
+ * `pi-schedule-prompt` command line. One command for now:
+ *
+ *   pi-schedule-prompt run [--cwd <dir>] [--log <file|->] [--all-sessions]
+ *
+ * See `headless.ts`.
+ */
+
+import { parseRunArgs, RUN_USAGE, runHeadless } from "./headless.js";
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command !== "run" || args.includes("--help") || args.includes("-h")) {
+  console.log(RUN_USAGE);
+  process.exit(command === "run" || command === "--help" || command === "-h" ? 0 : 1);
+}
+
+try {
+  await runHeadless(parseRunArgs(args));
+} catch (err) {
+  console.error(`pi-schedule-prompt: ${err instanceof Error ? err.message : String(err)}`);
+  console.error(RUN_USAGE);
+  process.exit(1);
+}
@@ -0,0 +1,202 @@
+/**
+ * File watching for `watch` jobs: glob patterns relative to the cwd, matched
+ * against change events from `fs.watch`, with bursts of changes debounced
+ * into a single callback carrying every path that changed.
+ */
+
+import { existsSync, type FSWatcher, readdirSync, statSync, watch } from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+
+/** Quiet period after the last change before a `watch` job fires, when it sets no `debounceMs`. */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 2000;
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Directories a wildcard never reaches into, and recursive watches skip:
+ * the job store (and its temp file) lives in `.pi/`, so `**\/*.json` would
+ * otherwise fire on every job run. A pattern whose static base is inside
+ * one (".pi/notes/*.md") still watches there.
+ */
+const EXCLUDED_DIRS = new Set([".pi", ".git", "node_modules"]);
+
+/** Whether `path` (matched by a pattern with static base `base`) lies in an excluded directory below that base. */
+function isExcluded(path: string, base: string): boolean {
+  const rest = base ? path.slice(base.length + 1) : path;
+  return rest
+    .split("/")
+    .slice(0, -1)
+    .some((segment) => EXCLUDED_DIRS.has(segment));
+}
+
+/**
+ * Compile a glob to an anchored RegExp. Supports `*` and `?` (within one
+ * path segment), `**` (any number of segments), `[abc]` / `[!abc]` classes
+ * and `{a,b}` alternatives. Paths are matched with forward slashes.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let groups = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        i++;
+        // "**/" also matches zero directories: "src/**/*.ts" covers "src/a.ts".
+        if (glob[i + 1] === "/") {
+          i++;
+          re += "(?:.*/)?";
+        } else {
+          re += ".*";
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "[" && glob.indexOf("]", i + 2) > i) {
+      const close = glob.indexOf("]", i + 2);
+      const body = glob.slice(i + 1, close).replace(/\\/g, "\\\\");
+      re += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = close;
+    } else if (c === "{") {
+      groups++;
+      re += "(?:";
+    } else if (c === "}" && groups > 0) {
+      groups--;
+      re += ")";
+    } else if (c === "," && groups > 0) {
+      re += "|";
+    } else {
+      re += c.replace(/[.+^$()|\\[\]{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Directory part of `glob` before its first wildcard segment: "src" for
+ * "src/**\/*.ts", "" for "*.md", "logs" for "logs/app.log".
+ */
+export function globBase(glob: string): string {
+  const segments = glob.split("/");
+  const firstWild = segments.findIndex((s) => GLOB_CHARS.test(s));
+  if (firstWild === -1) return dirname(glob) === "." ? "" : dirname(glob);
+  return segments.slice(0, firstWild).join("/");
+}
+
+/**
+ * Watch `patterns` (relative to `cwd`, or absolute) and call `onChange` with
+ * the changed paths — relative to `cwd`, sorted — once `debounceMs` passed
+ * without another matching change. Each pattern's static base directory is
+ * watched; recursively only when the rest of the pattern spans directories.
+ * A base that doesn't exist yet is watched through its nearest existing
+ * ancestor. Changes under `EXCLUDED_DIRS` below a pattern's base never
+ * match. Watch errors are logged, not thrown. Returns a function that
+ * closes every watcher and drops a pending callback.
+ */
+export function watchFiles(
+  cwd: string,
+  patterns: string[],
+  debounceMs: number,
+  onChange: (paths: string[]) => void,
+): () => void {
+  const matchers = patterns.map((p) => ({ absolute: isAbsolute(p), re: globToRegExp(p), base: globBase(p) }));
+  const pending = new Set<string>();
+  const watchers: FSWatcher[] = [];
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    const paths = [...pending].sort();
+    pending.clear();
+    if (paths.length > 0) onChange(paths);
+  };
+
+  const handle = (dir: string, filename: string | null) => {
+    if (!filename) return;
+    const full = join(dir, filename);
+    const rel = relative(cwd, full).split(sep).join("/");
+    const abs = full.split(sep).join("/");
+    const matches = (m: (typeof matchers)[number]) => {
+      const path = m.absolute ? abs : rel;
+      return m.re.test(path) && !isExcluded(path, m.base);
+    };
+    if (!matchers.some(matches)) return;
+    pending.add(rel);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  // One watcher per directory; recursive wins if any pattern needs it.
+  const dirs = new Map<string, boolean>();
+  for (const pattern of patterns) {
+    const base = globBase(pattern);
+    const rest = base ? pattern.slice(base.length + 1) : pattern;
+    let dir = resolve(cwd, base);
+    let recursive = rest.includes("/");
+    while (!existsSync(dir) && dirname(dir) !== dir) {
+      dir = dirname(dir);
+      recursive = true;
+    }
+    dirs.set(dir, (dirs.get(dir) ?? false) || recursive);
+  }
+
+  const open = (dir: string, recursive: boolean, listener: (filename: string | null) => void) => {
+    try {
+      const watcher = watch(dir, { recursive }, (_event, filename) => listener(filename));
+      watcher.on("error", (err) => {
+        console.warn(`[pi-schedule-prompt] Stopped watching ${dir}: ${err.message}`);
+        watcher.close();
+      });
+      watchers.push(watcher);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.warn(`[pi-schedule-prompt] Cannot watch ${dir}: ${reason}`);
+    }
+  };
+
+  // A recursive watch over a directory holding an excluded one is split into
+  // the directory itself plus a recursive watch per other subdirectory, so
+  // `node_modules` and friends are never walked. Subdirectories created
+  // later are picked up as they appear.
+  const watchTree = (dir: string) => {
+    let entries: string[];
+    try {
+      entries = readdirSync(dir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name);
+    } catch {
+      entries = [];
+    }
+    if (!entries.some((name) => EXCLUDED_DIRS.has(name))) {
+      open(dir, true, (filename) => handle(dir, filename));
+      return;
+    }
+    const subdirs = new Set(entries.filter((name) => !EXCLUDED_DIRS.has(name)));
+    for (const name of subdirs) watchTree(join(dir, name));
+    open(dir, false, (filename) => {
+      handle(dir, filename);
+      if (!filename || subdirs.has(filename) || EXCLUDED_DIRS.has(filename)) return;
+      try {
+        if (!statSync(join(dir, filename)).isDirectory()) return;
+      } catch {
+        return;
+      }
+      subdirs.add(filename);
+      watchTree(join(dir, filename));
+    });
+  };
+
+  for (const [dir, recursive] of dirs) {
+    if (recursive) watchTree(dir);
+    else open(dir, false, (filename) => handle(dir, filename));
+  }
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    pending.clear();
+    for (const watcher of watchers) watcher.close();
+  };
+}
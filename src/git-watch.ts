@@ -0,0 +1,225 @@
+/**
+ * Local git watching for `git` jobs: `.git/HEAD`, the branch refs and the
+ * branch's upstream (the remote-tracking ref a fetch updates) are watched
+ * with `fs.watch` and re-read once they settle. No git binary and no
+ * network — refs and config are read straight from the repository files.
+ */
+
+import { existsSync, type FSWatcher, readFileSync, statSync, watch } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+
+/** `branch` value that follows whichever branch is checked out. */
+export const GIT_HEAD = "HEAD";
+
+/** Quiet period after the last ref write before the refs are re-read. */
+const GIT_SETTLE_MS = 300;
+
+/** A branch tip that moved; the template variables of a `git` job's prompt. */
+export interface GitChange {
+  /** Branch name, "HEAD" when detached, or the upstream ("origin/main") when only it moved */
+  branch: string;
+  /** Previous tip, "" if the branch didn't exist */
+  oldSha: string;
+  /** New tip, "" if the branch was deleted */
+  newSha: string;
+}
+
+interface RefState {
+  branch: string;
+  sha: string;
+  /** The branch's upstream per `.git/config`, if it has one. */
+  upstream?: { name: string; sha: string };
+}
+
+/**
+ * Locate the git directory for `cwd`, walking up to the repository root.
+ * Follows the `gitdir:` pointer a worktree or submodule `.git` file holds.
+ */
+export function findGitDir(cwd: string): string | null {
+  let dir = resolve(cwd);
+  while (true) {
+    const candidate = join(dir, ".git");
+    if (existsSync(candidate)) {
+      if (statSync(candidate).isDirectory()) return candidate;
+      const pointer = readFileSync(candidate, "utf-8").match(/^gitdir:\s*(.+)$/m);
+      return pointer ? resolve(dir, pointer[1].trim()) : null;
+    }
+    if (dirname(dir) === dir) return null;
+    dir = dirname(dir);
+  }
+}
+
+/** Where the shared refs live: worktrees keep their own HEAD but point here. */
+function commonGitDir(gitDir: string): string {
+  const pointer = join(gitDir, "commondir");
+  return existsSync(pointer) ? resolve(gitDir, readFileSync(pointer, "utf-8").trim()) : gitDir;
+}
+
+/** Resolve `refs/heads/<name>` to its SHA from the loose ref or `packed-refs`. */
+function readRefSha(gitDir: string, ref: string): string {
+  const commonDir = commonGitDir(gitDir);
+  for (const dir of [gitDir, commonDir]) {
+    const loose = join(dir, ref);
+    if (existsSync(loose)) return readFileSync(loose, "utf-8").trim();
+  }
+  const packed = join(commonDir, "packed-refs");
+  if (!existsSync(packed)) return "";
+  for (const line of readFileSync(packed, "utf-8").split("\n")) {
+    const [sha, name] = line.trim().split(" ");
+    if (name === ref) return sha;
+  }
+  return "";
+}
+
+/**
+ * The upstream of `branch` from the `[branch "<name>"]` section of the
+ * repository config: its display name and ref. `null` when none is set.
+ */
+function readUpstream(gitDir: string, branch: string): { name: string; ref: string } | null {
+  const config = join(commonGitDir(gitDir), "config");
+  if (!existsSync(config)) return null;
+  let inSection = false;
+  let remote: string | undefined;
+  let merge: string | undefined;
+  for (const raw of readFileSync(config, "utf-8").split("\n")) {
+    const line = raw.trim();
+    const section = line.match(/^\[(\S+)(?:\s+"(.*)")?\]$/);
+    if (section) {
+      inSection = section[1].toLowerCase() === "branch" && section[2] === branch;
+      continue;
+    }
+    const entry = inSection ? line.match(/^(\w+)\s*=\s*(.*)$/) : null;
+    if (entry?.[1].toLowerCase() === "remote") remote = entry[2];
+    if (entry?.[1].toLowerCase() === "merge") merge = entry[2];
+  }
+  if (!remote || !merge?.startsWith("refs/heads/")) return null;
+  const name = merge.slice("refs/heads/".length);
+  // A remote of "." tracks another local branch.
+  if (remote === ".") return { name, ref: merge };
+  return { name: `${remote}/${name}`, ref: `refs/remotes/${remote}/${name}` };
+}
+
+/** Current tip of `branch`, or of the checked-out branch for `GIT_HEAD`, with its upstream's. */
+function readState(gitDir: string, branch: string): RefState {
+  let state: RefState;
+  if (branch !== GIT_HEAD) {
+    state = { branch, sha: readRefSha(gitDir, `refs/heads/${branch}`) };
+  } else {
+    const head = readFileSync(join(gitDir, "HEAD"), "utf-8").trim();
+    const symbolic = head.match(/^ref:\s*refs\/heads\/(.+)$/);
+    if (!symbolic) return { branch: GIT_HEAD, sha: head };
+    state = { branch: symbolic[1], sha: readRefSha(gitDir, `refs/heads/${symbolic[1]}`) };
+  }
+  const upstream = readUpstream(gitDir, state.branch);
+  if (upstream) state.upstream = { name: upstream.name, sha: readRefSha(gitDir, upstream.ref) };
+  return state;
+}
+
+/**
+ * What moved between two reads, if anything: the branch (a new tip, or for
+ * `GIT_HEAD` a checkout of another branch, even at the same commit) or else
+ * its upstream — a fetch. One settled burst yields at most one change, so a
+ * pull that moves both reports the branch.
+ */
+function diffState(last: RefState, next: RefState): GitChange | null {
+  if (next.branch !== last.branch || next.sha !== last.sha) {
+    return { branch: next.branch, oldSha: last.sha, newSha: next.sha };
+  }
+  const [before, after] = [last.upstream, next.upstream];
+  if (before && after && before.name === after.name && before.sha !== after.sha) {
+    return { branch: after.name, oldSha: before.sha, newSha: after.sha };
+  }
+  return null;
+}
+
+/**
+ * Watch the repository containing `cwd` and call `onChange` whenever the tip
+ * of `branch` moves — commits, merges, pulls, resets — or, for `GIT_HEAD`,
+ * whenever another commit or branch is checked out. A fetch that moves the
+ * branch's upstream counts too. Bursts of ref writes are settled into one
+ * call. Returns a function that closes the
+ * watchers. Outside a repository this logs a warning and watches nothing.
+ */
+export function watchGit(
+  cwd: string,
+  branch: string,
+  onChange: (change: GitChange) => void,
+): () => void {
+  const gitDir = findGitDir(cwd);
+  if (!gitDir) {
+    console.warn(`[pi-schedule-prompt] Not a git repository: ${cwd}; git job not armed`);
+    return () => {};
+  }
+
+  const safeRead = (): RefState | null => {
+    try {
+      return readState(gitDir, branch);
+    } catch {
+      // Mid-write (lock file renamed a moment later) — the next event re-reads.
+      return null;
+    }
+  };
+
+  let last = safeRead() ?? { branch, sha: "" };
+  let timer: NodeJS.Timeout | undefined;
+  const settle = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      watchRefDirs();
+      const next = safeRead();
+      if (!next) return;
+      const change = diffState(last, next);
+      last = next;
+      if (change) onChange(change);
+    }, GIT_SETTLE_MS);
+  };
+
+  const watchers: FSWatcher[] = [];
+  const watched = new Set<string>();
+  const commonDir = commonGitDir(gitDir);
+  // HEAD, config and packed-refs live at the top; loose branch refs under
+  // refs/heads and remote-tracking ones under refs/remotes, which the first
+  // fetch creates — `refs` itself is watched to notice that.
+  const targets: [string, boolean][] = [
+    [gitDir, false],
+    [commonDir, false],
+    [join(commonDir, "refs"), false],
+    [join(commonDir, "refs", "heads"), true],
+    [join(commonDir, "refs", "remotes"), true],
+  ];
+  const watchRefDirs = () => {
+    for (const [dir, recursive] of targets) {
+      if (!watched.has(dir) && existsSync(dir)) watchDir(dir, recursive);
+    }
+  };
+  const watchDir = (dir: string, recursive: boolean) => {
+    watched.add(dir);
+    try {
+      const watcher = watch(dir, { recursive }, settle);
+      watcher.on("error", (err) => {
+        console.warn(`[pi-schedule-prompt] Stopped watching ${dir}: ${err.message}`);
+        watcher.close();
+      });
+      watchers.push(watcher);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.warn(`[pi-schedule-prompt] Cannot watch ${dir}: ${reason}`);
+    }
+  };
+  watchRefDirs();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    for (const watcher of watchers) watcher.close();
+  };
+}
+
+/**
+ * Fill a `git` job's prompt: `{{branch}}`, `{{oldSha}}` and `{{newSha}}` are
+ * replaced with the change's values. Unknown placeholders are left as-is.
+ */
+export function renderGitPrompt(prompt: string, change: GitChange): string {
+  return prompt.replace(/\{\{\s*(branch|oldSha|newSha)\s*\}\}/g, (_m, name: keyof GitChange) => change[name]);
+}
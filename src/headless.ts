@@ -0,0 +1,208 @@
+/**
+ * Headless runner: fire a cwd's subagent (`model`) jobs from a long-lived
+ * process with no pi session open — under systemd, tmux, etc. Markers that
+ * would land in chat are written to a log file instead. Started by
+ * `pi-schedule-prompt run` (see `cli.ts`).
+ */
+
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import {
+  AuthStorage,
+  type ExtensionAPI,
+  type ExtensionContext,
+  ModelRegistry,
+} from "@earendil-works/pi-coding-agent";
+import { CronScheduler, describeLateness, formatElapsed } from "./scheduler.js";
+import { loadSettings, type ScheduleSettings } from "./settings.js";
+import { CronStorage } from "./storage.js";
+import type { CronJob } from "./types.js";
+
+export interface HeadlessOptions {
+  /** Directory whose `.pi/schedule-prompts.json` is run. */
+  cwd: string;
+  /** Log file, or "-" for stdout. Default `<cwd>/.pi/schedule-prompts.log`. */
+  log: string;
+  /** Also run jobs bound to a pi session. Default: only unbound (workdir) jobs. */
+  allSessions: boolean;
+}
+
+export const RUN_USAGE = `Usage: pi-schedule-prompt run [--cwd <dir>] [--log <file|->] [--all-sessions]
+
+Runs the subagent (model) jobs of <dir> (default: the current directory)
+without a pi session. Results go to <dir>/.pi/schedule-prompts.log unless
+--log is given. Only jobs without a session binding run, unless
+--all-sessions is passed. Job changes apply live; SIGHUP reloads settings
+without interrupting runs in flight.`;
+
+/** Parse the arguments after `run`. Throws with a message on bad input. */
+export function parseRunArgs(args: string[]): HeadlessOptions {
+  let cwd = process.cwd();
+  let log: string | undefined;
+  let allSessions = false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--all-sessions") {
+      allSessions = true;
+    } else if (arg === "--cwd" || arg === "--log") {
+      const value = args[++i];
+      if (!value) throw new Error(`${arg} needs a value`);
+      if (arg === "--cwd") cwd = resolve(value);
+      else log = value;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return { cwd, log: log ?? join(cwd, ".pi", "schedule-prompts.log"), allSessions };
+}
+
+/** Job types that only make sense inside a pi session: no agent to idle, no session to start. */
+function runsHeadless(job: CronJob): boolean {
+  return !!job.model && job.type !== "idle" && !CronScheduler.isLifecycle(job.type);
+}
+
+/**
+ * `CronStorage` restricted to the jobs the headless runner fires. Everything
+ * else is invisible to the scheduler, so it neither arms nor fires them. With
+ * `allSessions`, session bindings are hidden too.
+ */
+export class HeadlessStorage extends CronStorage {
+  private readonly allSessions: boolean;
+
+  constructor(cwd: string, allSessions: boolean) {
+    super(cwd);
+    this.allSessions = allSessions;
+  }
+
+  private view(job: CronJob | undefined): CronJob | undefined {
+    if (!job || !runsHeadless(job)) return undefined;
+    return this.allSessions ? { ...job, session: undefined } : job;
+  }
+
+  getJob(id: string): CronJob | undefined {
+    return this.view(super.getJob(id));
+  }
+
+  getAllJobs(): CronJob[] {
+    return super.getAllJobs().flatMap((job) => this.view(job) ?? []);
+  }
+}
+
+type MarkerDetails = {
+  jobId: string;
+  jobName: string;
+  mode?: "subagent_start" | "subagent_done" | "subagent_error";
+  model?: string;
+  retry?: { attempt: number; attempts: number };
+  output?: string;
+  error?: string;
+  elapsedMs?: number;
+  timedOut?: boolean;
+  lateByMs?: number;
+};
+
+/** One log line for a scheduler marker — the headless twin of the chat renderer in `index.ts`. */
+export function formatLogLine(details: MarkerDetails, at = new Date()): string {
+  const retry = details.retry ? `, retry ${details.retry.attempt}/${details.retry.attempts}` : "";
+  const job = `${details.jobName} (${details.jobId}) [${details.model ?? "inline"}${retry}]`;
+  let event: string;
+  switch (details.mode) {
+    case "subagent_done":
+      event = `finished${details.output ? `: ${details.output}` : ""}`;
+      break;
+    case "subagent_error": {
+      const elapsed = details.elapsedMs !== undefined ? ` after ${formatElapsed(details.elapsedMs)}` : "";
+      event = `${details.timedOut ? "timed out" : "failed"}${elapsed}${details.error ? `: ${details.error}` : ""}`;
+      break;
+    }
+    default:
+      event = `started${details.lateByMs !== undefined ? ` (${describeLateness(details.lateByMs)})` : ""}`;
+  }
+  return `${at.toISOString()} ${job} ${event}`;
+}
+
+/**
+ * The slice of `ExtensionAPI` the scheduler uses, without a pi session:
+ * markers become log lines, `cron:change` events go to in-process listeners
+ * so chained jobs still fire.
+ */
+export function createHeadlessPi(write: (line: string) => void): ExtensionAPI {
+  const listeners = new Map<string, Set<(data: unknown) => void>>();
+  return {
+    sendMessage: (message: { details?: unknown }) => {
+      if (message.details) write(formatLogLine(message.details as MarkerDetails));
+    },
+    // Never reached: inline jobs are filtered out by `HeadlessStorage`.
+    sendUserMessage: () => {},
+    events: {
+      emit: (channel: string, data: unknown) => {
+        for (const listener of [...(listeners.get(channel) ?? [])]) listener(data);
+      },
+      on: (channel: string, listener: (data: unknown) => void) => {
+        const set = listeners.get(channel) ?? new Set();
+        set.add(listener);
+        listeners.set(channel, set);
+        return () => set.delete(listener);
+      },
+    },
+  } as unknown as ExtensionAPI;
+}
+
+/**
+ * Start the headless runner and keep it running until SIGINT / SIGTERM.
+ * Resolves once the scheduler is started.
+ */
+export async function runHeadless(options: HeadlessOptions): Promise<void> {
+  const write =
+    options.log === "-"
+      ? (line: string) => console.log(line)
+      : (line: string) => {
+          try {
+            mkdirSync(dirname(options.log), { recursive: true });
+            appendFileSync(options.log, `${line}\n`, "utf-8");
+          } catch (err) {
+            console.error(`[pi-schedule-prompt] Cannot write ${options.log}:`, err);
+          }
+        };
+
+  const modelRegistry = ModelRegistry.create(AuthStorage.create());
+  const ctx = {
+    cwd: options.cwd,
+    modelRegistry,
+    // No session: only unbound jobs load (or all of them, see `HeadlessStorage`).
+    sessionManager: { getSessionId: () => undefined },
+  } as unknown as ExtensionContext;
+
+  let settings: ScheduleSettings = loadSettings(options.cwd);
+  const storage = new HeadlessStorage(options.cwd, options.allSessions);
+  const scheduler = new CronScheduler(storage, createHeadlessPi(write), ctx, () => settings);
+
+  const announce = () => {
+    const jobs = storage.getAllJobs().filter((j) => j.enabled);
+    write(
+      `${new Date().toISOString()} runner: ${jobs.length} subagent job(s) in ${options.cwd}${jobs.length ? `: ${jobs.map((j) => j.name).join(", ")}` : ""}`,
+    );
+  };
+
+  scheduler.start();
+  announce();
+
+  // Jobs with no timer (none loaded, or only chained ones) would otherwise let the process exit.
+  const keepAlive = setInterval(() => {}, 60 * 60 * 1000);
+
+  // The scheduler reads settings on every fire, so a reload needs no restart
+  // and in-flight runs carry on. Jobs are re-synced from the store right away.
+  process.on("SIGHUP", () => {
+    settings = loadSettings(options.cwd);
+    scheduler.syncFromStorage();
+    announce();
+  });
+  const shutdown = () => {
+    clearInterval(keepAlive);
+    scheduler.stop();
+    write(`${new Date().toISOString()} runner: stopped`);
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
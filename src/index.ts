@@ -11,7 +11,7 @@
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
 import type { OverlayHandle } from "@earendil-works/pi-tui";
 import { Text } from "@earendil-works/pi-tui";
-import { CronScheduler } from "./scheduler.js";
+import { CronScheduler, describeLateness, formatElapsed } from "./scheduler.js";
 import { loadSettings, type ScheduleSettings, saveSettings } from "./settings.js";
 import { CronStorage } from "./storage.js";
 import { createCronTool } from "./tool.js";
@@ -37,20 +37,27 @@ export default async function (pi: ExtensionAPI) {
           prompt: string;
           mode?: "subagent_start" | "subagent_done" | "subagent_error";
           model?: string;
+          retry?: { attempt: number; attempts: number };
           output?: string;
           error?: string;
+          elapsedMs?: number;
+          timedOut?: boolean;
+          lateByMs?: number;
         }
       | undefined;
     const jobName = details?.jobName || "Unknown";
     const prompt = details?.prompt || "";
     const model = details?.model;
-    const tag = model ? ` (subagent: ${model})` : "";
+    const retry = details?.retry ? `, retry ${details.retry.attempt}/${details.retry.attempts}` : "";
+    const tag = model ? ` (subagent: ${model}${retry})` : "";
+    const late = details?.lateByMs !== undefined ? theme.fg("warning", ` (${describeLateness(details.lateByMs)})`) : "";
 
     let line: string;
     switch (details?.mode) {
       case "subagent_start":
         line =
           theme.fg("accent", `🕐 Scheduled${tag}: ${jobName}`) +
+          late +
           (prompt ? theme.fg("dim", ` → "${prompt}"`) : "");
         break;
       case "subagent_done":
@@ -58,14 +65,18 @@ export default async function (pi: ExtensionAPI) {
           theme.fg("accent", `✓ Scheduled${tag} finished: ${jobName}`) +
           (details?.output ? theme.fg("dim", ` → ${details.output}`) : "");
         break;
-      case "subagent_error":
+      case "subagent_error": {
+        const elapsed = details.elapsedMs !== undefined ? ` after ${formatElapsed(details.elapsedMs)}` : "";
+        const outcome = details.timedOut ? "timed out" : "failed";
         line =
-          theme.fg("error", `✗ Scheduled${tag} failed: ${jobName}`) +
+          theme.fg("error", `✗ Scheduled${tag} ${outcome}${elapsed}: ${jobName}`) +
           (details?.error ? theme.fg("dim", ` → ${details.error}`) : "");
         break;
+      }
       default:
         line =
           theme.fg("accent", `🕐 Scheduled: ${jobName}`) +
+          late +
           (prompt ? theme.fg("dim", ` → "${prompt}"`) : "");
     }
 
@@ -91,7 +102,7 @@ export default async function (pi: ExtensionAPI) {
 
     settings = loadSettings(ctx.cwd);
     storage = new CronStorage(ctx.cwd);
-    scheduler = new CronScheduler(storage, pi, ctx);
+    scheduler = new CronScheduler(storage, pi, ctx, () => settings);
     widget = new CronWidget(storage, scheduler, pi, isWidgetVisible, ctx.sessionManager.getSessionId());
 
     scheduler.start();
@@ -138,13 +149,38 @@ export default async function (pi: ExtensionAPI) {
       autoCleanupDisabledJobs(ctx);
     }
     initializeSession(ctx);
+    // A reload or fork isn't pi opening or a session resuming.
+    if (event.reason === "startup" || event.reason === "new") {
+      await scheduler.fireLifecycleJobs("onSessionStart");
+    } else if (event.reason === "resume") {
+      await scheduler.fireLifecycleJobs("onResume");
+    }
   });
 
-  pi.on("session_shutdown", async (_event, ctx) => {
+  pi.on("session_shutdown", async (event, ctx) => {
+    // Before `cleanupSession` stops the scheduler, which would abort the runs.
+    if (event.reason !== "reload") {
+      await scheduler?.fireLifecycleJobs("onShutdown");
+    }
     autoCleanupDisabledJobs(ctx);
     cleanupSession(ctx);
   });
 
+  // Agent activity drives `idle` jobs. Input from extensions — including our
+  // own scheduled prompts — isn't user activity, so an idle job's prompt
+  // doesn't re-arm it.
+  pi.on("input", async (event) => {
+    if (event.source !== "extension") scheduler?.noteActivity();
+  });
+
+  pi.on("agent_start", async () => {
+    scheduler?.noteAgentStart();
+  });
+
+  pi.on("agent_end", async () => {
+    scheduler?.noteAgentEnd();
+  });
+
   // --- Register /schedule-prompt command ---
 
   pi.registerCommand("schedule-prompt", {
@@ -0,0 +1,97 @@
+/**
+ * Fire leases: one file per (job, scheduled time) slot under
+ * `.pi/schedule-prompt-leases/`, created with `O_EXCL` so exactly one
+ * process — of every pi and headless runner open in the cwd — wins the slot.
+ * A lease whose owner died is taken over; leases on other hosts (a shared
+ * network drive) can't be checked and hold until they're pruned a day on.
+ * Pruning scans the directory, so each process does it at most hourly.
+ */
+
+import * as fs from "node:fs";
+import { hostname } from "node:os";
+import * as path from "node:path";
+
+/** Leases for slots older than this are deleted by the next prune. */
+const LEASE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/** A claim prunes its directory when this process last did so longer ago than this. */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** When this process last pruned each lease directory. */
+const lastPruned = new Map<string, number>();
+
+interface Lease {
+  pid: number;
+  host: string;
+  claimedAt: string;
+}
+
+/** Whether process `pid` on this host is still running. */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: it exists, it just isn't ours to signal.
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Read the owner of an existing lease. `null` while it can't be parsed —
+ * most likely its owner created it a moment ago and is still writing.
+ */
+function readLease(file: string): Lease | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as Lease;
+  } catch {
+    return null;
+  }
+}
+
+/** Delete leases of slots that ended more than `LEASE_RETENTION_MS` ago. */
+function pruneLeases(dir: string, now: number): void {
+  for (const name of fs.readdirSync(dir)) {
+    const slot = Number(name.match(/@(\d+)\.lease$/)?.[1]);
+    if (slot && slot < now - LEASE_RETENTION_MS) fs.rmSync(path.join(dir, name), { force: true });
+  }
+}
+
+/**
+ * Claim the slot of `jobId` scheduled at `slot` (epoch ms) in `dir`.
+ * `true` if this process holds it — newly, again (deferred and caught-up
+ * fires claim the same slot twice), or taken over from a dead owner.
+ * `false` if another live process claimed it first. Errors other than a
+ * lost race fail open: a fire is never lost to a broken lease directory.
+ */
+export function claimLease(dir: string, jobId: string, slot: number): boolean {
+  const file = path.join(dir, `${jobId.replace(/[^\w-]/g, "_")}@${slot}.lease`);
+  const lease: Lease = { pid: process.pid, host: hostname(), claimedAt: new Date().toISOString() };
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    const now = Date.now();
+    if (now - (lastPruned.get(dir) ?? 0) >= PRUNE_INTERVAL_MS) {
+      lastPruned.set(dir, now);
+      pruneLeases(dir, now);
+    }
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.writeFileSync(file, JSON.stringify(lease), { encoding: "utf-8", flag: "wx" });
+        return true;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      }
+      const owner = readLease(file);
+      if (!owner) return false;
+      if (owner.host !== lease.host) return false; // can't check another host's processes
+      if (owner.pid === process.pid) return true;
+      if (isProcessAlive(owner.pid)) return false;
+      console.log(`[pi-schedule-prompt] Taking over lease of dead process ${owner.pid}: ${file}`);
+      fs.rmSync(file, { force: true });
+    }
+    return false;
+  } catch (err) {
+    console.warn(`[pi-schedule-prompt] Cannot claim lease ${file}:`, err);
+    return true;
+  }
+}
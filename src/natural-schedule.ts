@@ -0,0 +1,378 @@
+/**
+ * Deterministic English schedule parser.
+ *
+ * Turns the phrases people (and the LLM) actually type — "every weekday at
+ * 9am", "tomorrow at 3pm", "every 2 hours between 9 and 17", "in 20 minutes" —
+ * into a job type plus a schedule string in one of the native formats
+ * `CronScheduler.validateSchedule` already understands:
+ *
+ * - `cron`: canonical 6-field expression (`0 0 9 * * 1-5`)
+ * - `once`: relative time (`+20m`) or a zone-less ISO wall-clock timestamp
+ *   (`2026-02-14T15:00:00`), read in the job's timezone by the validator
+ * - `interval`: duration string (`10m`)
+ *
+ * No guessing: anything outside the supported grammar returns null and the
+ * caller reports the native format error instead.
+ */
+
+import { zonedWallClock } from "./timezone.js";
+import type { CronJobType } from "./types.js";
+
+export interface NaturalSchedule {
+  type: CronJobType;
+  schedule: string;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+interface WallDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tues: 2,
+  tuesday: 2,
+  wed: 3,
+  wednesday: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6,
+};
+
+/** Unit word → suffix used by `parseRelativeTime` / `parseInterval`, and its multiplier into that suffix. */
+const UNITS: Record<string, { suffix: "s" | "m" | "h" | "d"; factor: number }> = {
+  second: { suffix: "s", factor: 1 },
+  sec: { suffix: "s", factor: 1 },
+  minute: { suffix: "m", factor: 1 },
+  min: { suffix: "m", factor: 1 },
+  hour: { suffix: "h", factor: 1 },
+  hr: { suffix: "h", factor: 1 },
+  day: { suffix: "d", factor: 1 },
+  week: { suffix: "d", factor: 7 },
+};
+
+const TIME = String.raw`(noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm)?)`;
+const CLOCK = String.raw`(noon|midnight|\d{1,2}:\d{2}\s*(?:am|pm)?|\d{1,2}\s*(?:am|pm))`;
+const COUNT = String.raw`(\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+const UNIT = `(second|sec|minute|min|hour|hr|day|week)s?`;
+
+/**
+ * Parse an English schedule phrase. `now` and `timeZone` anchor relative day
+ * words ("today", "tomorrow", "monday") for one-shot results. Returns null for
+ * anything outside the supported grammar.
+ */
+export function parseNaturalSchedule(
+  input: string,
+  now: Date = new Date(),
+  timeZone?: string,
+): NaturalSchedule | null {
+  let text = input
+    .toLowerCase()
+    .replace(/[.!?]+$/, "")
+    .replace(/,/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!text || !/[a-z]/.test(text)) return null;
+
+  const relative = parseRelative(text);
+  if (relative) return relative;
+
+  // Pull out the "between 9 and 17" window and the "at 9am" clause first so
+  // the remainder is just the day / frequency part, whatever the word order.
+  let window: { from: number; to: number } | undefined;
+  const windowMatch = text.match(new RegExp(String.raw`\b(?:between|from) ${TIME} (?:and|to|-) ${TIME}\b`));
+  if (windowMatch) {
+    const from = parseTime(windowMatch[1]);
+    const to = parseTime(windowMatch[2]);
+    if (!from || !to || from.minute !== 0 || to.minute !== 0 || from.hour > to.hour) return null;
+    window = { from: from.hour, to: to.hour };
+    text = strip(text, windowMatch[0]);
+  }
+
+  let time: TimeOfDay | undefined;
+  const timeMatch = text.match(new RegExp(String.raw`\bat ${TIME}(?=$| )`));
+  if (timeMatch) {
+    const parsed = parseTime(timeMatch[1]);
+    if (!parsed) return null;
+    time = parsed;
+    text = strip(text, timeMatch[0]);
+  }
+
+  return (
+    parseFrequency(text, window, time) ??
+    (window ? null : parseRecurringDays(text, time)) ??
+    (window ? null : parseOneShot(text, time, now, timeZone))
+  );
+}
+
+/** "in 20 minutes", "in an hour", "in 5m", "30 seconds from now" → once with relative time. */
+function parseRelative(text: string): NaturalSchedule | null {
+  if (text === "in half an hour") return { type: "once", schedule: "+30m" };
+  const short = text.match(/^in (\d+) ?(s|m|h|d)$/);
+  if (short) return { type: "once", schedule: `+${short[1]}${short[2]}` };
+  const match =
+    text.match(new RegExp(`^in ${COUNT} ${UNIT}$`)) ??
+    text.match(new RegExp(`^${COUNT} ${UNIT} from now$`));
+  if (!match) return null;
+  const count = parseCount(match[1]);
+  const unit = UNITS[match[2]];
+  if (!count || !unit) return null;
+  return { type: "once", schedule: `+${count * unit.factor}${unit.suffix}` };
+}
+
+/**
+ * "every 10 minutes" → interval; "every minute" / "every hour" → aligned
+ * cron; "every 2 hours between 9 and 17 on weekdays" → windowed cron.
+ */
+function parseFrequency(
+  text: string,
+  window: { from: number; to: number } | undefined,
+  time: TimeOfDay | undefined,
+): NaturalSchedule | null {
+  if (text === "hourly" && !time && !window) return { type: "cron", schedule: "0 0 * * * *" };
+
+  const match = text.match(new RegExp(`^(?:every|each) (?:${COUNT} )?${UNIT}(?: (.+))?$`));
+  if (!match || time) return null;
+  const count = match[1] ? parseCount(match[1]) : 1;
+  const unitWord = match[2];
+  const rest = match[3];
+  const unit = UNITS[unitWord];
+  if (!count || !unit) return null;
+
+  const dow = rest ? parseDaysOfWeek(rest) : "*";
+  if (dow === null) return null;
+
+  if (window || dow !== "*") {
+    // Windows and day filters need clock alignment, so they only make sense
+    // for minute- and hour-based frequencies.
+    const from = window?.from ?? 0;
+    const to = window?.to ?? 23;
+    if (unit.suffix === "m") {
+      if (count > 59) return null;
+      // "between 9 and 17" covers 9:00 up to (not including) 17:00.
+      const hours = window ? range(from, Math.max(from, to - 1)) : "*";
+      return { type: "cron", schedule: `0 ${step("*", count)} ${hours} * * ${dow}` };
+    }
+    if (unit.suffix === "h") {
+      if (count > 23) return null;
+      const hours = window ? step(range(from, to), count) : step("*", count);
+      return { type: "cron", schedule: `0 0 ${hours} * * ${dow}` };
+    }
+    return null;
+  }
+
+  if (count === 1) {
+    if (unitWord.startsWith("sec")) return { type: "cron", schedule: "* * * * * *" };
+    if (unitWord.startsWith("min")) return { type: "cron", schedule: "0 * * * * *" };
+    if (unitWord.startsWith("h")) return { type: "cron", schedule: "0 0 * * * *" };
+    if (unitWord === "day") return { type: "cron", schedule: "0 0 0 * * *" };
+    if (unitWord === "week") return { type: "cron", schedule: "0 0 0 * * 0" };
+  }
+  return { type: "interval", schedule: `${count * unit.factor}${unit.suffix}` };
+}
+
+/**
+ * Day-based recurring phrases, with the time of day from the "at" clause
+ * (midnight if omitted): "every day", "daily", "weekdays", "every monday and
+ * friday", "weekly on tuesday", "every month on the 15th".
+ */
+function parseRecurringDays(text: string, time: TimeOfDay | undefined): NaturalSchedule | null {
+  const at = time ?? { hour: 0, minute: 0 };
+  const cron = (dom: string, dow: string): NaturalSchedule => ({
+    type: "cron",
+    schedule: `0 ${at.minute} ${at.hour} ${dom} * ${dow}`,
+  });
+
+  if (/^(?:every day|each day|everyday|daily)$/.test(text)) return cron("*", "*");
+
+  const monthly = text.match(
+    /^(?:(?:every|each) month|monthly)(?: on the (\d{1,2})(?:st|nd|rd|th)?)?$/,
+  ) ?? text.match(/^on the (\d{1,2})(?:st|nd|rd|th)? of (?:every|each) month$/);
+  if (monthly) {
+    const dom = monthly[1] ? Number(monthly[1]) : 1;
+    return dom >= 1 && dom <= 31 ? cron(String(dom), "*") : null;
+  }
+
+  const weekly = text.match(/^(?:(?:every|each) week|weekly)(?: on (.+))?$/);
+  if (weekly) {
+    const dow = weekly[1] ? parseDaysOfWeek(weekly[1]) : "0";
+    return dow && dow !== "*" ? cron("*", dow) : null;
+  }
+
+  // Plain "friday" is a one-shot; recurring needs "every friday" or "fridays".
+  if (!/^(?:every|each) /.test(text) && !text.endsWith("s")) return null;
+  const dow = parseDaysOfWeek(text);
+  return dow && dow !== "*" ? cron("*", dow) : null;
+}
+
+/**
+ * One-shot phrases: "tomorrow at 3pm", "today at 17:30", "at noon",
+ * "next friday at 9am". A bare time that already passed today means tomorrow.
+ */
+function parseOneShot(
+  text: string,
+  time: TimeOfDay | undefined,
+  now: Date,
+  timeZone: string | undefined,
+): NaturalSchedule | null {
+  // "tomorrow 3pm" / "3pm tomorrow" without "at". Only unambiguous clock
+  // times count here (am/pm, hh:mm, noon) — a bare "3" is not a time.
+  if (!time) {
+    const lead = text.match(new RegExp(`^(?:(.+) )?${CLOCK}$`));
+    const trail = text.match(new RegExp(`^${CLOCK} (.+)$`));
+    const found = lead
+      ? { clock: lead[2], rest: lead[1] ?? "" }
+      : trail
+        ? { clock: trail[1], rest: trail[2] }
+        : null;
+    const parsed = found ? parseTime(found.clock) : null;
+    if (!found || !parsed) return null;
+    time = parsed;
+    text = found.rest;
+  }
+
+  const today = wallClockOf(now, timeZone);
+  const nowMinutes = today.hour * 60 + today.minute;
+  const atMinutes = time.hour * 60 + time.minute;
+  let offsetDays: number;
+
+  if (text === "" || text === "today") {
+    offsetDays = text === "" && atMinutes <= nowMinutes ? 1 : 0;
+  } else if (text === "tonight") {
+    // "tonight at 9" means 21:00.
+    if (time.hour < 12) time = { ...time, hour: time.hour + 12 };
+    offsetDays = 0;
+  } else if (text === "tomorrow") {
+    offsetDays = 1;
+  } else if (text === "the day after tomorrow") {
+    offsetDays = 2;
+  } else {
+    const weekday = text.match(/^(?:(next|on|this) )?([a-z]+)$/);
+    const target = weekday ? WEEKDAYS[weekday[2]] : undefined;
+    if (target === undefined) return null;
+    const todayDow = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+    offsetDays = (target - todayDow + 7) % 7;
+    if (offsetDays === 0 && (weekday?.[1] === "next" || atMinutes <= nowMinutes)) offsetDays = 7;
+  }
+
+  const date = addDays(today, offsetDays);
+  return { type: "once", schedule: `${isoDate(date)}T${pad(time.hour)}:${pad(time.minute)}:00` };
+}
+
+/**
+ * Day-of-week cron field for "weekdays", "weekends", "mondays", "every monday
+ * and friday", "on tue thu". Returns "*" for "every day", null if unrecognised.
+ */
+function parseDaysOfWeek(text: string): string | null {
+  const t = text.replace(/^(?:every|each|on) /, "").trim();
+  if (/^(?:day|days)$/.test(t)) return "*";
+  if (/^(?:weekday|weekdays|workday|workdays|business days?)$/.test(t)) return "1-5";
+  if (/^(?:weekend|weekends|weekend days?)$/.test(t)) return "0,6";
+
+  const names = t.split(/ (?:and|&) | /).filter(Boolean);
+  if (names.length === 0) return null;
+  const days = new Set<number>();
+  for (const name of names) {
+    const day = WEEKDAYS[name] ?? WEEKDAYS[name.replace(/s$/, "")];
+    if (day === undefined) return null;
+    days.add(day);
+  }
+  return Array.from(days)
+    .sort((a, b) => a - b)
+    .join(",");
+}
+
+function parseTime(text: string): TimeOfDay | null {
+  const t = text.trim();
+  if (t === "noon") return { hour: 12, minute: 0 };
+  if (t === "midnight") return { hour: 0, minute: 0 };
+  const match = t.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  if (match[3]) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (match[3] === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+function parseCount(word: string): number | null {
+  const n = /^\d+$/.test(word) ? Number(word) : NUMBER_WORDS[word];
+  return n && n > 0 ? n : null;
+}
+
+function wallClockOf(now: Date, timeZone: string | undefined) {
+  if (timeZone) return zonedWallClock(now.getTime(), timeZone);
+  return {
+    year: now.getFullYear(),
+    month: now.getMonth() + 1,
+    day: now.getDate(),
+    hour: now.getHours(),
+    minute: now.getMinutes(),
+  };
+}
+
+function addDays(date: WallDate, days: number): WallDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+function isoDate(date: WallDate): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, "0");
+}
+
+function range(from: number, to: number): string {
+  return from === to ? String(from) : `${from}-${to}`;
+}
+
+function step(field: string, every: number): string {
+  return every === 1 ? field : `${field}/${every}`;
+}
+
+function strip(text: string, clause: string): string {
+  return text.replace(clause, " ").replace(/\s+/g, " ").trim();
+}
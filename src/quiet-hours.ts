@@ -0,0 +1,159 @@
+/**
+ * Quiet hours: recurring wall-clock windows in which scheduled fires are held
+ * back — deferred to the end of the window or dropped. Configured globally in
+ * `ScheduleSettings.quietHours` and overridable per job via `CronJob.quietHours`.
+ */
+
+import { isValidTimezone, parseTimestamp, zonedWallClock } from "./timezone.js";
+import type { QuietHours, QuietHoursWindow } from "./types.js";
+
+/** Result of `validateQuietHours`: the sanitized config on success. */
+type ValidateQuietHoursResult = { ok: true; quietHours: QuietHours } | { ok: false; error: string };
+
+const HH_MM = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/** Upper bound on back-to-back windows followed when looking for the end of
+ *  a quiet stretch (weeknight window running into a weekend window, ...). */
+const MAX_CHAINED_WINDOWS = 16;
+
+/**
+ * Validate an untrusted quiet-hours config (settings file, tool params).
+ * Windows need `start`/`end` as "HH:MM"; `days` (0 = Sunday … 6 = Saturday)
+ * restricts the days a window *starts* on; `start === end` means all day.
+ */
+export function validateQuietHours(raw: unknown): ValidateQuietHoursResult {
+  if (!raw || typeof raw !== "object") {
+    return { ok: false, error: "quietHours must be an object with a 'windows' array" };
+  }
+  const r = raw as Record<string, unknown>;
+  if (!Array.isArray(r.windows) || r.windows.length === 0) {
+    return { ok: false, error: "quietHours.windows must be a non-empty array" };
+  }
+
+  const windows: QuietHoursWindow[] = [];
+  for (const w of r.windows as unknown[]) {
+    const win = (w ?? {}) as Record<string, unknown>;
+    if (typeof win.start !== "string" || !HH_MM.test(win.start)) {
+      return { ok: false, error: `Invalid quiet-hours start: ${String(win.start)}. Use "HH:MM" (24h)` };
+    }
+    if (typeof win.end !== "string" || !HH_MM.test(win.end)) {
+      return { ok: false, error: `Invalid quiet-hours end: ${String(win.end)}. Use "HH:MM" (24h)` };
+    }
+    const out: QuietHoursWindow = { start: win.start, end: win.end };
+    if (win.days !== undefined) {
+      const days = win.days;
+      if (!Array.isArray(days) || !days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+        return { ok: false, error: "quietHours window days must be integers 0-6 (0 = Sunday)" };
+      }
+      out.days = days as number[];
+    }
+    windows.push(out);
+  }
+
+  const quietHours: QuietHours = { windows };
+  if (r.action !== undefined) {
+    if (r.action !== "defer" && r.action !== "drop") {
+      return { ok: false, error: `Invalid quietHours action: ${String(r.action)}. Use 'defer' or 'drop'` };
+    }
+    quietHours.action = r.action;
+  }
+  if (r.timezone !== undefined) {
+    if (typeof r.timezone !== "string" || !isValidTimezone(r.timezone)) {
+      return { ok: false, error: `Unknown quietHours timezone: ${String(r.timezone)}` };
+    }
+    quietHours.timezone = r.timezone;
+  }
+  return { ok: true, quietHours };
+}
+
+/**
+ * If `at` falls inside a quiet window, return the instant the quiet stretch
+ * ends — following windows that run straight into each other — otherwise
+ * `null`. Windows are read in `quiet.timezone`, host local time by default.
+ */
+export function quietHoursEnd(quiet: QuietHours, at: Date): Date | null {
+  let end: Date | null = null;
+  let cursor = at;
+  for (let i = 0; i < MAX_CHAINED_WINDOWS; i++) {
+    const next = activeWindowEnd(quiet, cursor);
+    if (!next) break;
+    end = next;
+    cursor = next;
+  }
+  return end;
+}
+
+/** End of the window containing `at`, or `null` if none does. */
+function activeWindowEnd(quiet: QuietHours, at: Date): Date | null {
+  const wall = wallClock(at, quiet.timezone);
+  const minutes = wall.hour * 60 + wall.minute;
+  const weekday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+  const startsOn = (w: QuietHoursWindow, day: number) => !w.days || w.days.includes(day);
+
+  let latest: Date | null = null;
+  for (const w of quiet.windows) {
+    const start = toMinutes(w.start);
+    const end = toMinutes(w.end);
+    // Days after `wall`'s date the window containing `at` ends on, if any.
+    let endsOn: number | null = null;
+    if (start < end) {
+      if (startsOn(w, weekday) && minutes >= start && minutes < end) endsOn = 0;
+    } else if (startsOn(w, weekday) && minutes >= start) {
+      // Overnight (22:00-07:00) or all-day (00:00-00:00) window started today.
+      endsOn = 1;
+    } else if (startsOn(w, (weekday + 6) % 7) && minutes < end) {
+      // ... or one that started yesterday.
+      endsOn = 0;
+    }
+    if (endsOn === null) continue;
+    const candidate = instantAt(wall, endsOn, end, quiet.timezone);
+    if (!latest || candidate.getTime() > latest.getTime()) latest = candidate;
+  }
+  return latest;
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+/** Wall-clock fields of `at` in `timeZone`, or in host local time. */
+function wallClock(at: Date, timeZone: string | undefined) {
+  if (timeZone) return zonedWallClock(at.getTime(), timeZone);
+  return {
+    year: at.getFullYear(),
+    month: at.getMonth() + 1,
+    day: at.getDate(),
+    hour: at.getHours(),
+    minute: at.getMinutes(),
+  };
+}
+
+/** Instant of `minutes` past midnight, `dayOffset` days after `wall`'s date. */
+function instantAt(
+  wall: { year: number; month: number; day: number },
+  dayOffset: number,
+  minutes: number,
+  timeZone: string | undefined,
+): Date {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + dayOffset));
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!timeZone) {
+    return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), h, m);
+  }
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  const iso = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}T${pad(h)}:${pad(m)}:00`;
+  return parseTimestamp(iso, timeZone);
+}
+
+/** Compact render of a quiet-hours config: "22:00-07:00, Sat/Sun all day (defer)". */
+export function describeQuietHours(quiet: QuietHours): string {
+  const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const windows = quiet.windows.map((w) => {
+    const span = w.start === w.end ? "all day" : `${w.start}-${w.end}`;
+    return w.days ? `${w.days.map((d) => DAY_NAMES[d]).join("/")} ${span}` : span;
+  });
+  const zone = quiet.timezone ? ` ${quiet.timezone}` : "";
+  return `${windows.join(", ")}${zone} (${quiet.action ?? "defer"})`;
+}
@@ -1,17 +1,92 @@
+import { spawn } from "node:child_process";
 import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
 import { Cron } from "croner";
+import { DEFAULT_WATCH_DEBOUNCE_MS, watchFiles } from "./file-watch.js";
+import { GIT_HEAD, type GitChange, renderGitPrompt, watchGit } from "./git-watch.js";
+import { parseNaturalSchedule } from "./natural-schedule.js";
+import { quietHoursEnd } from "./quiet-hours.js";
+import type { ScheduleSettings } from "./settings.js";
 import type { CronStorage } from "./storage.js";
 import { runSubagentOnce, type SubagentResult } from "./subagent.js";
-import type { CronChangeEvent, CronJob, CronJobType } from "./types.js";
+import { isValidTimezone, parseTimestamp, zonedWallClock } from "./timezone.js";
+import type {
+  CronChangeEvent,
+  CronJob,
+  CronJobType,
+  LifecycleTrigger,
+  QuietHours,
+} from "./types.js";
 
 /** Result of `CronScheduler.validateSchedule`. On success, `schedule` is the
- *  resolved form to persist (ISO for `once`, original for `cron`/`interval`). */
+ *  resolved form to persist (ISO for `once`, canonical 6-field for `cron`,
+ *  original for `interval`) and `type` the job type it resolved as — which
+ *  differs from the requested type when a natural-language phrase decided it. */
 type ValidateScheduleResult =
-  | { ok: true; schedule: string; intervalMs?: number }
+  | { ok: true; type: CronJobType; schedule: string; intervalMs?: number }
   | { ok: false; error: string };
 
+/** Result of `CronScheduler.resolveTimeBound`: the ISO timestamp to persist. */
+type ResolveTimeBoundResult = { ok: true; at: string } | { ok: false; error: string };
+
+/** Why a job may not fire right now — see `CronScheduler.checkRunLimits`. */
+export type RunLimitState = "notStarted" | "exhausted";
+
+/** A timed fire whose scheduled time the caller knows: a missed run, an interval tick. */
+interface DueFire {
+  /** When the run fell due: the fire's lease slot. */
+  dueAt: Date;
+  /** The machine slept through it (rather than no pi being open): the run records `lateByMs`. */
+  afterSleep?: boolean;
+}
+
 const SUBAGENT_OUTPUT_SNIPPET_LENGTH = 500;
 
+/** How long a job's `when` precondition may run before the fire is skipped. */
+export const WHEN_TIMEOUT_MS = 30_000;
+
+/** How long `onShutdown` subagent runs may hold up session shutdown. */
+const SHUTDOWN_GRACE_MS = 60_000;
+
+/** Changed paths listed in a `watch` job's prompt; the rest are counted. */
+const WATCH_PATHS_LISTED = 50;
+
+/** Cap on missed runs replayed by `misfirePolicy: "runAll"` when the job sets no `misfireLimit`. */
+export const DEFAULT_MISFIRE_LIMIT = 10;
+
+/** Delay before the first retry of a failed subagent run when `retry.backoff` is unset. */
+export const DEFAULT_RETRY_BACKOFF = "30s";
+
+/**
+ * Fields the scheduler writes while running jobs. `syncFromStorage` ignores
+ * changes to them — `executeJob` re-reads them from storage on every fire.
+ */
+const RUNTIME_FIELDS: (keyof CronJob)[] = [
+  "lastRun",
+  "lastTick",
+  "lastStatus",
+  "nextRun",
+  "runCount",
+  "retryAttempt",
+  "deferredUntil",
+  "skippedRuns",
+  "lastSkipReason",
+  "skipCount",
+  "snoozedUntil",
+  "lateByMs",
+];
+
+/** How often the drift monitor compares the wall clock with the time its timer waited. */
+export const DRIFT_CHECK_MS = 10_000;
+
+/** Gap between the two that counts as sleep or a clock change rather than a busy event loop. */
+export const DRIFT_THRESHOLD_MS = 60_000;
+
+/** Length of a `pause` that names no end: the tool's default and the Jobs view's `p` key. */
+export const DEFAULT_PAUSE_MS = 60 * 60 * 1000;
+
+/** How far the Jobs view's `z` key pushes a job's next run back. */
+export const DEFAULT_SNOOZE_MS = 15 * 60 * 1000;
+
 /** Truncate `text` to `SUBAGENT_OUTPUT_SNIPPET_LENGTH`, appending an ellipsis if cut. */
 function snippet(text: string): string {
   return text.length > SUBAGENT_OUTPUT_SNIPPET_LENGTH
@@ -19,42 +94,542 @@ function snippet(text: string): string {
     : text;
 }
 
+/** Compact elapsed-time render: "42s", "5m 3s", "1h 20m". */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Run a `when` precondition through the shell in `cwd`. Resolves with `null`
+ * when it exited 0, otherwise with why not: its stderr, exit code or timeout.
+ * Stdout is discarded and stderr kept only up to a snippet, so a chatty
+ * command (`npm test`) can't overflow a buffer. The shell gets its own
+ * process group, and a timeout kills the whole group — not just the shell.
+ */
+function checkPrecondition(command: string, cwd: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const child = spawn(command, { cwd, shell: true, detached: true, stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+    child.stderr?.setEncoding("utf-8");
+    child.stderr?.on("data", (chunk: string) => {
+      // One char past the snippet length, so `snippet` still marks the cut.
+      if (stderr.length <= SUBAGENT_OUTPUT_SNIPPET_LENGTH) {
+        stderr = (stderr + chunk).slice(0, SUBAGENT_OUTPUT_SNIPPET_LENGTH + 1);
+      }
+    });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    }, WHEN_TIMEOUT_MS);
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      resolve(err.message);
+    });
+    // A success needs no stderr: don't wait on children that inherited it.
+    child.on("exit", (code) => {
+      if (code !== 0 || timedOut) return;
+      clearTimeout(timer);
+      resolve(null);
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (timedOut) return resolve(`timed out after ${formatElapsed(WHEN_TIMEOUT_MS)}`);
+      if (code === 0) return;
+      resolve(snippet(stderr.trim()) || (code === null ? `killed by ${signal}` : `exited with code ${code}`));
+    });
+  });
+}
+
+/** Coarse lateness render: "45m", "3h", "2d". */
+export function formatLateness(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+/** What a run the machine slept through records: "fired 3h late after sleep". */
+export function describeLateness(ms: number): string {
+  return `fired ${formatLateness(ms)} late after sleep`;
+}
+
+/** Longest delay `setTimeout` honours (~24.8 days); Node fires longer ones after 1ms. */
+export const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Call `fn` at `at`, however far off. Waits beyond `MAX_TIMEOUT_MS` are
+ * armed in chunks of at most that length, each re-measured against the
+ * clock, so the call is never early. `onArm` gets every chunk's handle —
+ * the caller keeps the latest to cancel it.
+ */
+function setTimeoutAt(at: Date, fn: () => void, onArm: (timer: NodeJS.Timeout) => void): void {
+  const delay = at.getTime() - Date.now();
+  if (delay > MAX_TIMEOUT_MS) {
+    onArm(setTimeout(() => setTimeoutAt(at, fn, onArm), MAX_TIMEOUT_MS));
+  } else {
+    onArm(setTimeout(fn, Math.max(0, delay)));
+  }
+}
+
+/** Resolve after `ms`, or as soon as `signal` aborts. */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    let timer: NodeJS.Timeout | undefined;
+    setTimeoutAt(
+      new Date(Date.now() + ms),
+      () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      },
+      (chunk) => {
+        timer = chunk;
+      },
+    );
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 /**
  * Manages cron job scheduling and execution
  */
 export class CronScheduler {
   private jobs = new Map<string, Cron>();
   private intervals = new Map<string, NodeJS.Timeout>();
-  private activeSubagents = new Set<AbortController>();
+  /** Close functions of the file / ref watchers behind `watch` and `git` jobs, keyed by job id. */
+  private watchers = new Map<string, () => void>();
+  /** Armed threshold timers of `idle` jobs, keyed by job id, with the time they fire. */
+  private idleTimers = new Map<string, { timer: NodeJS.Timeout; at: Date }>();
+  /** `idle` jobs that fired since the last user activity — not re-armed until `noteActivity`. */
+  private idleFired = new Set<string>();
+  /** Between `agent_start` and `agent_end`: idle timers stay disarmed. */
+  private agentBusy = false;
+  /** Inline fires held by `delivery: "waitForIdle"` until the next `agent_end`, with their trigger context. */
+  private waitingForIdle = new Map<string, { job: CronJob; context: string | undefined }>();
+  /** Completion promises of in-flight subagent runs, with their job id; `fireLifecycleJobs` awaits the onShutdown ones. */
+  private subagentRuns = new Map<Promise<void>, string>();
+  /** Fires held back by quiet hours or a pause, keyed by job id — one pending fire per job. */
+  private deferred = new Map<string, { timeout: NodeJS.Timeout; fire: () => void; until: Date }>();
+  /** In-flight subagent runs keyed by job id; the `overlap` policy reads it. */
+  private activeSubagents = new Map<string, Set<AbortController>>();
+  /** Fires waiting for their job's in-flight run (`overlap: "queue"`), with their trigger context. */
+  private queuedFires = new Map<string, string | undefined>();
+  /** Unsubscribes the `cron:change` listener that fires chained (`after`) jobs. */
+  private unsubscribeChain?: () => void;
+  /** Config signatures of the loaded jobs as last applied here, keyed by job id — what `syncFromStorage` diffs against. */
+  private synced = new Map<string, string>();
+  /** `pausedUntil` as last seen by `syncFromStorage`. */
+  private syncedPausedUntil?: string;
+  /** Stops the store-file watcher that drives `syncFromStorage`. */
+  private unwatchStore?: () => void;
+  /** Drift monitor: see `checkClock`. */
+  private driftTimer?: NodeJS.Timeout;
+  /** Wall-clock and monotonic (`performance.now`) time of the last clock check. */
+  private lastClockCheck = { wall: 0, mono: 0 };
   private readonly storage: CronStorage;
   private readonly pi: ExtensionAPI;
   private readonly ctx: ExtensionContext;
+  private readonly getSettings: () => ScheduleSettings;
 
-  constructor(storage: CronStorage, pi: ExtensionAPI, ctx: ExtensionContext) {
+  /** `getSettings` is a getter so a reloaded settings file applies to the next fire. */
+  constructor(
+    storage: CronStorage,
+    pi: ExtensionAPI,
+    ctx: ExtensionContext,
+    getSettings: () => ScheduleSettings = () => ({}),
+  ) {
     this.storage = storage;
     this.pi = pi;
     this.ctx = ctx;
+    this.getSettings = getSettings;
   }
 
   /**
    * Schedule all enabled jobs loaded for this session — see `isLoadedFor`.
    * Foreign-session jobs are skipped so two pis in the same cwd don't double-fire.
    *
-   * Also clears stale `lastStatus: "running"` from an interrupted prior run of
-   * *this* session (process kill, abort) — otherwise the widget sticks on `⟳`
-   * until the cron next fires. Other sessions' flags are theirs to manage.
+   * Also clears stale `lastStatus: "running"` / `"deferred"` from an
+   * interrupted prior run of *this* session (process kill, abort) — otherwise
+   * the widget sticks on `⟳` until the cron next fires. A fire that was
+   * waiting out quiet hours died with that process. Other sessions' flags are
+   * theirs to manage.
+   *
+   * Runs missed while no pi was open are caught up per the job's
+   * `misfirePolicy` before its timer is armed — see `catchUpMissedRuns`.
+   * Jobs that ran out of runs or passed their `endAt` meanwhile are disabled
+   * instead of armed.
    */
   start(): void {
+    this.unsubscribeChain?.();
+    this.unsubscribeChain = this.pi.events.on("cron:change", (event) =>
+      this.fireChainedJobs(event as CronChangeEvent),
+    );
+
     const mySessionId = this.ctx.sessionManager.getSessionId();
     for (const job of this.storage.getAllJobs()) {
       if (!CronScheduler.isLoadedFor(job, mySessionId)) continue;
-      if (job.lastStatus === "running") {
-        this.storage.updateJob(job.id, { lastStatus: undefined });
+      if (job.lastStatus === "running" || job.lastStatus === "deferred") {
+        this.storage.updateJob(job.id, {
+          lastStatus: undefined,
+          deferredUntil: undefined,
+          retryAttempt: undefined,
+        });
       }
       if (job.enabled) {
+        this.catchUpMissedRuns(job);
+        // A missed one-shot (or a job whose catch-up used up its `maxRuns`)
+        // was just fired and disabled — nothing left to arm.
+        if (!this.storage.getJob(job.id)?.enabled) continue;
         this.scheduleJob(job);
       }
     }
+
+    this.synced.clear();
+    for (const job of this.storage.getAllJobs()) {
+      if (CronScheduler.isLoadedFor(job, mySessionId)) this.markSynced(job);
+    }
+    this.syncedPausedUntil = this.storage.getPausedUntil();
+    this.unwatchStore?.();
+    this.unwatchStore = this.storage.watch(() => this.syncFromStorage());
+
+    if (this.driftTimer) clearInterval(this.driftTimer);
+    this.lastClockCheck = { wall: Date.now(), mono: performance.now() };
+    this.driftTimer = setInterval(() => this.checkClock(), DRIFT_CHECK_MS);
+    // Never what keeps a process alive on its own.
+    this.driftTimer.unref?.();
+  }
+
+  /**
+   * Clock check, run by the drift monitor every `DRIFT_CHECK_MS` and by every
+   * timer callback before it fires. Timers count elapsed time, which stops
+   * while the machine sleeps, so after a wake every armed timer is hours
+   * behind the wall clock — and after the clock is set back, ahead of it.
+   * Either shows up here as the wall clock having moved much more (or less)
+   * than the monotonic clock since the last check; then every timer is
+   * reconciled. Returns whether it was — a timer callback then drops its
+   * fire, which the reconcile already handled under the misfire rule.
+   */
+  private checkClock(): boolean {
+    if (!this.driftTimer) return false;
+    const now = { wall: Date.now(), mono: performance.now() };
+    const drift = now.wall - this.lastClockCheck.wall - (now.mono - this.lastClockCheck.mono);
+    const asleepSince = new Date(this.lastClockCheck.wall);
+    this.lastClockCheck = now;
+    if (Math.abs(drift) < DRIFT_THRESHOLD_MS) return false;
+    console.log(`Clock jumped ${drift > 0 ? "ahead" : "back"} by ${formatElapsed(Math.abs(drift))}; re-arming timers`);
+    this.reconcileTimers(drift > 0 ? asleepSince : undefined);
+    return true;
+  }
+
+  /**
+   * Re-arm every timed job and deferred fire against the wall clock. With
+   * `asleepSince` (the clock jumped ahead: the machine slept, or the clock
+   * was set forward) the runs that fell due in between go through the job's
+   * misfire rule first, as on `start()` — see `catchUpMissedRuns`.
+   */
+  private reconcileTimers(asleepSince?: Date): void {
+    const mySessionId = this.ctx.sessionManager.getSessionId();
+    for (const job of this.storage.getAllJobs()) {
+      if (!this.jobs.has(job.id) && !this.intervals.has(job.id)) continue;
+      this.jobs.get(job.id)?.stop();
+      this.jobs.delete(job.id);
+      clearTimeout(this.intervals.get(job.id));
+      this.intervals.delete(job.id);
+      if (!job.enabled || !CronScheduler.isLoadedFor(job, mySessionId)) continue;
+
+      if (asleepSince) this.catchUpMissedRuns(job, asleepSince);
+      // Caught-up one-shots (and jobs out of runs) were disabled meanwhile.
+      const fresh = this.storage.getJob(job.id);
+      if (fresh?.enabled) this.scheduleJob(fresh);
+    }
+    // Fires held for quiet hours, a pause or a snooze go out at their end,
+    // right away if it passed during the sleep.
+    for (const entry of this.deferred.values()) {
+      clearTimeout(entry.timeout);
+      setTimeoutAt(entry.until, entry.fire, (timeout) => {
+        entry.timeout = timeout;
+      });
+    }
+  }
+
+  /**
+   * Apply changes to the store made outside this scheduler — by another pi
+   * session, a headless runner, or a hand edit — by diffing it against what
+   * this scheduler last applied. Jobs that appeared (or became loaded here
+   * by a rebind) go through `addJob`, jobs whose config changed through
+   * `updateJob`, jobs that vanished (or were rebound away) through
+   * `removeJob`. Run stats are ignored, see `RUNTIME_FIELDS`. A pause set or
+   * lifted elsewhere is re-emitted so the widget shows it. Called by the
+   * store watcher that `start()` installs.
+   */
+  syncFromStorage(): void {
+    const mySessionId = this.ctx.sessionManager.getSessionId();
+    const present = new Set<string>();
+    for (const job of this.storage.getAllJobs()) {
+      if (!CronScheduler.isLoadedFor(job, mySessionId)) continue;
+      present.add(job.id);
+      const known = this.synced.get(job.id);
+      if (known === CronScheduler.configSignature(job)) continue;
+      if (known === undefined) {
+        console.log(`Store sync: loading ${job.name} (${job.id})`);
+        this.addJob(job);
+      } else {
+        console.log(`Store sync: reloading ${job.name} (${job.id})`);
+        this.updateJob(job.id, job);
+      }
+    }
+    for (const id of [...this.synced.keys()]) {
+      if (present.has(id)) continue;
+      console.log(`Store sync: unloading ${id}`);
+      this.removeJob(id);
+    }
+
+    const pausedUntil = this.storage.getPausedUntil();
+    if (pausedUntil !== this.syncedPausedUntil) {
+      this.syncedPausedUntil = pausedUntil;
+      this.emitChange({ type: "pause", pausedUntil });
+      // Resumed elsewhere: release what the pause deferred, as `resume()` does.
+      if (!pausedUntil) for (const { fire } of [...this.deferred.values()]) fire();
+    }
+  }
+
+  /** `job` as JSON without its run stats: equal signatures need no reschedule. */
+  private static configSignature(job: CronJob): string {
+    const config: Partial<CronJob> = { ...job };
+    for (const field of RUNTIME_FIELDS) delete config[field];
+    return JSON.stringify(config);
+  }
+
+  /** Record `job` as applied, so `syncFromStorage` leaves it alone until it changes. */
+  private markSynced(job: CronJob): void {
+    if (CronScheduler.isLoadedFor(job, this.ctx.sessionManager.getSessionId())) {
+      this.synced.set(job.id, CronScheduler.configSignature(job));
+    } else {
+      this.synced.delete(job.id);
+    }
+  }
+
+  /**
+   * Fire the runs of `job` that fell due while no pi was open, through the
+   * normal `executeJob` path. `skip` (default) fires nothing, `runOnce` fires
+   * a single catch-up run, `runAll` replays each missed run up to
+   * `misfireLimit`. A caught-up one-shot job is disabled the same way its
+   * timer would have disabled it. Never replays more runs than `maxRuns`
+   * has left. Returns the number of runs fired.
+   *
+   * After a sleep, `asleepSince` is when the drift monitor last saw the
+   * clock before it: runs are counted from there (or from the last run, if
+   * later), each catch-up fire records how late it went out, and under
+   * `skip` the dropped runs are recorded as the job's skip reason.
+   */
+  private catchUpMissedRuns(job: CronJob, asleepSince?: Date): number {
+    const policy = job.misfirePolicy ?? "skip";
+    const now = new Date();
+    let since: Date | undefined;
+    if (asleepSince) {
+      const handled = CronScheduler.lastHandled(job);
+      since = handled.getTime() > asleepSince.getTime() ? handled : asleepSince;
+    }
+
+    if (policy === "skip") {
+      // On start, a one-shot's missed time is reported by `scheduleJob` when it's armed.
+      if (!since) return 0;
+      const missed = CronScheduler.missedRunTimes(job, now, DEFAULT_MISFIRE_LIMIT, since);
+      if (missed.length === 0) return 0;
+      const count = missed.length === DEFAULT_MISFIRE_LIMIT ? `${missed.length}+` : `${missed.length}`;
+      const reason = job.type === "once" ? "missed during sleep" : `missed ${count} run(s) during sleep`;
+      console.log(`${job.name} (${job.id}) ${reason}`);
+      const skipped = {
+        lastStatus: "skipped" as const,
+        lastSkipReason: reason,
+        lastTick: missed[missed.length - 1].toISOString(),
+      };
+      this.storage.updateJob(job.id, skipped);
+      // A one-shot slept through is done: skipped, not an error.
+      if (job.type === "once") this.disableOnceJob({ ...job, ...skipped });
+      else this.emitChange({ type: "update", job: { ...job, ...skipped } });
+      return 0;
+    }
+
+    let limit = policy === "runOnce" ? 1 : (job.misfireLimit ?? DEFAULT_MISFIRE_LIMIT);
+    if (job.maxRuns) limit = Math.min(limit, job.maxRuns - job.runCount);
+    const missed = CronScheduler.missedRunTimes(job, now, limit, since);
+    if (missed.length === 0) return 0;
+
+    console.log(`Catching up ${missed.length} missed run(s) of ${job.name} (${job.id}) [${policy}]`);
+    // Each run claims its own missed tick, so processes catching up the same
+    // runs (started or woken at different moments) replay each one once.
+    for (const dueAt of missed) {
+      void this.executeJob(job, undefined, false, { dueAt, afterSleep: !!asleepSince });
+    }
+    // Unless a pause, quiet hours or a snooze deferred it: the deferred fire disables it.
+    if (job.type === "once" && !this.deferred.has(job.id)) {
+      this.storage.updateJob(job.id, { enabled: false });
+      this.emitChange({ type: "update", job: { ...job, enabled: false } });
+    }
+    return missed.length;
+  }
+
+  /**
+   * Scheduled time of the fire `executeJob` is handling — the key of its
+   * lease. For interval jobs, the latest tick of the shared anchor (the
+   * period bucket for a job not anchored yet); for cron jobs, the latest
+   * tick of the pattern. Not croner's `currentRun()`: that is when the
+   * callback actually ran, a few milliseconds off the tick, and differs
+   * between processes firing the same tick.
+   */
+  private slotOf(job: CronJob): number {
+    const now = Date.now();
+    if (job.type === "once") return CronScheduler.onceTarget(job).getTime();
+    if (job.type === "interval" && job.intervalMs) {
+      const anchor = job.anchorAt ? new Date(job.anchorAt).getTime() : 0;
+      return now - ((((now - anchor) % job.intervalMs) + job.intervalMs) % job.intervalMs);
+    }
+    // Ticks fall on whole seconds; `previousRuns` returns the latest one before its argument.
+    const second = now - (now % 1000);
+    return this.jobs.get(job.id)?.previousRuns(1, new Date(second + 1000))[0]?.getTime() ?? second;
+  }
+
+  /**
+   * First tick of an interval job strictly after `after`: `anchorAt` plus a
+   * whole number of intervals. `null` for a job without an interval or anchor.
+   */
+  static nextIntervalTick(job: CronJob, after: Date): Date | null {
+    if (!job.intervalMs || !job.anchorAt) return null;
+    const anchor = new Date(job.anchorAt).getTime();
+    if (Number.isNaN(anchor)) return null;
+    const ticks = Math.max(0, Math.floor((after.getTime() - anchor) / job.intervalMs) + 1);
+    return new Date(anchor + ticks * job.intervalMs);
+  }
+
+  /** When a `once` job fires: its scheduled time, or the end of a later snooze. */
+  private static onceTarget(job: CronJob): Date {
+    const target = new Date(job.schedule);
+    const snoozedUntil = job.snoozedUntil ? new Date(job.snoozedUntil) : undefined;
+    return snoozedUntil && snoozedUntil.getTime() > target.getTime() ? snoozedUntil : target;
+  }
+
+  /**
+   * Where counting missed runs of `job` starts: the last tick it handled —
+   * fires dropped by quiet hours, a pause, a requested skip, a false `when`
+   * or a busy agent were dealt with on purpose and are never replayed — or
+   * its last (manual) run if later, or its creation if it never fired.
+   */
+  private static lastHandled(job: CronJob): Date {
+    const times = [job.lastTick, job.lastRun].filter((t): t is string => !!t).map((t) => new Date(t).getTime());
+    return new Date(times.length > 0 ? Math.max(...times) : job.createdAt);
+  }
+
+  /**
+   * Count fires of `job` that fell due after the last one it handled (see
+   * `lastHandled`) and at or before `now`. Ticks before `startAt` weren't
+   * due and don't count. Stops counting at `limit` so a per-second cron left
+   * alone for a week doesn't walk millions of ticks.
+   */
+  static countMissedRuns(job: CronJob, now: Date, limit = DEFAULT_MISFIRE_LIMIT): number {
+    return CronScheduler.missedRunTimes(job, now, limit).length;
+  }
+
+  /**
+   * The times counted by `countMissedRuns`, oldest first. `from` overrides
+   * the last handled tick as where counting starts.
+   */
+  static missedRunTimes(
+    job: CronJob,
+    now: Date,
+    limit = DEFAULT_MISFIRE_LIMIT,
+    from: Date = CronScheduler.lastHandled(job),
+  ): Date[] {
+    // Event-triggered jobs have no clock of their own to miss.
+    if (!CronScheduler.isTimed(job.type)) return [];
+    let since = from;
+    if (Number.isNaN(since.getTime()) || limit <= 0) return [];
+    if (job.startAt) {
+      // One millisecond early so a tick landing exactly on `startAt` counts.
+      const start = new Date(job.startAt).getTime() - 1;
+      if (start > since.getTime()) since = new Date(start);
+    }
+
+    if (job.type === "once") {
+      const target = CronScheduler.onceTarget(job);
+      return target.getTime() > since.getTime() && target.getTime() <= now.getTime() ? [target] : [];
+    }
+
+    const times: Date[] = [];
+    if (job.type === "interval") {
+      if (!job.intervalMs) return [];
+      // Ticks of the anchored cadence in (since, now]; unanchored jobs count from `since`.
+      const period = job.intervalMs;
+      const anchor = job.anchorAt ? new Date(job.anchorAt).getTime() : since.getTime();
+      const first = Math.max(0, Math.floor((since.getTime() - anchor) / period)) + 1;
+      for (let tick = anchor + first * period; tick <= now.getTime() && times.length < limit; tick += period) {
+        times.push(new Date(tick));
+      }
+      return times;
+    }
+
+    try {
+      // No callback: croner only evaluates the pattern, nothing is armed.
+      const pattern = new Cron(job.schedule, { timezone: job.timezone });
+      let cursor: Date | null = since;
+      while (times.length < limit) {
+        cursor = pattern.nextRun(cursor);
+        if (!cursor || cursor.getTime() > now.getTime()) break;
+        times.push(cursor);
+      }
+      return times;
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Check `job` against its `startAt` / `endAt` window and `maxRuns` budget.
+   * `notStarted` means skip this fire but keep the job armed; `exhausted`
+   * means it will never fire again and should be disabled. `null` when it's
+   * free to fire.
+   */
+  static checkRunLimits(job: CronJob, now: Date): RunLimitState | null {
+    if (job.maxRuns && job.runCount >= job.maxRuns) return "exhausted";
+    if (job.endAt && new Date(job.endAt).getTime() < now.getTime()) return "exhausted";
+    if (job.startAt && new Date(job.startAt).getTime() > now.getTime()) return "notStarted";
+    return null;
+  }
+
+  /**
+   * Trigger context for a `watch` job's fire: the changed paths as a list,
+   * capped at `WATCH_PATHS_LISTED` entries.
+   */
+  static describeChangedPaths(paths: string[]): string {
+    const listed = paths.slice(0, WATCH_PATHS_LISTED).map((p) => `- ${p}`);
+    if (paths.length > WATCH_PATHS_LISTED) {
+      listed.push(`- … and ${paths.length - WATCH_PATHS_LISTED} more`);
+    }
+    return `Changed files:\n${listed.join("\n")}`;
+  }
+
+  /** Whether `type` fires on a clock (cron, once, interval) rather than on an event. */
+  static isTimed(type: CronJobType): boolean {
+    return type === "cron" || type === "once" || type === "interval";
+  }
+
+  /** Whether `type` is a session lifecycle trigger. */
+  static isLifecycle(type: CronJobType): type is LifecycleTrigger {
+    return type === "onSessionStart" || type === "onResume" || type === "onShutdown";
   }
 
   /** Unbound jobs (no `session` field) load for everyone. */
@@ -66,6 +641,14 @@ export class CronScheduler {
    * Stop all scheduled jobs
    */
   stop(): void {
+    this.unsubscribeChain?.();
+    this.unsubscribeChain = undefined;
+    this.unwatchStore?.();
+    this.unwatchStore = undefined;
+    this.synced.clear();
+    if (this.driftTimer) clearInterval(this.driftTimer);
+    this.driftTimer = undefined;
+
     // Stop all cron jobs
     for (const cron of this.jobs.values()) {
       cron.stop();
@@ -78,12 +661,31 @@ export class CronScheduler {
     }
     this.intervals.clear();
 
+    for (const close of this.watchers.values()) {
+      close();
+    }
+    this.watchers.clear();
+
+    for (const { timer } of this.idleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.idleTimers.clear();
+    this.idleFired.clear();
+    this.agentBusy = false;
+    this.waitingForIdle.clear();
+
+    for (const { timeout } of this.deferred.values()) {
+      clearTimeout(timeout);
+    }
+    this.deferred.clear();
+
     // Abort any in-flight subagent runs so they don't keep streaming or post
     // markers against a stale pi reference after session shutdown.
-    for (const controller of this.activeSubagents) {
-      controller.abort();
+    for (const controllers of this.activeSubagents.values()) {
+      for (const controller of controllers) controller.abort();
     }
     this.activeSubagents.clear();
+    this.queuedFires.clear();
   }
 
   /**
@@ -93,6 +695,8 @@ export class CronScheduler {
     if (job.enabled) {
       this.scheduleJob(job);
     }
+    // Re-read: arming an interval job may have persisted its anchor.
+    this.markSynced(this.storage.getJob(job.id) ?? job);
     this.emitChange({ type: "add", job });
   }
 
@@ -101,6 +705,7 @@ export class CronScheduler {
    */
   removeJob(id: string): void {
     this.unscheduleJob(id);
+    this.synced.delete(id);
     this.emitChange({ type: "remove", jobId: id });
   }
 
@@ -112,47 +717,266 @@ export class CronScheduler {
     if (updated.enabled) {
       this.scheduleJob(updated);
     }
+    this.markSynced(this.storage.getJob(id) ?? updated);
     this.emitChange({ type: "update", job: updated });
   }
 
   /**
-   * Get next run time for a job
+   * Record user activity (input typed or sent over RPC). Every `idle` job's
+   * countdown restarts, including ones that already fired since the last
+   * activity. Called from the `input` lifecycle handler in `index.ts`.
+   */
+  noteActivity(): void {
+    this.idleFired.clear();
+    if (!this.agentBusy) this.armIdleJobs();
+  }
+
+  /**
+   * Fire the enabled lifecycle jobs of `trigger` loaded for this session.
+   * Called from the `session_start` / `session_shutdown` handlers in
+   * `index.ts`, after `start()` and before `stop()` respectively. On
+   * shutdown, waits up to `SHUTDOWN_GRACE_MS` for the subagent runs these
+   * jobs started so `stop()` doesn't abort them. Other runs still in flight
+   * are aborted as usual.
+   */
+  async fireLifecycleJobs(trigger: LifecycleTrigger): Promise<void> {
+    const mySessionId = this.ctx.sessionManager.getSessionId();
+    const fired = new Set<string>();
+    const fires: Promise<void>[] = [];
+    for (const job of this.storage.getAllJobs()) {
+      if (job.type !== trigger || !job.enabled) continue;
+      if (!CronScheduler.isLoadedFor(job, mySessionId)) continue;
+      console.log(`Lifecycle: ${trigger} → firing ${job.name} (${job.id})`);
+      fired.add(job.id);
+      fires.push(this.executeJob(job));
+    }
+    if (trigger !== "onShutdown" || fires.length === 0) return;
+
+    // A fire's subagent run is registered by the time its `executeJob` settles.
+    const runs = Promise.allSettled(fires).then(() =>
+      Promise.allSettled([...this.subagentRuns].filter(([, jobId]) => fired.has(jobId)).map(([run]) => run)),
+    );
+    let grace: NodeJS.Timeout | undefined;
+    await Promise.race([
+      runs,
+      new Promise<void>((resolve) => {
+        grace = setTimeout(resolve, SHUTDOWN_GRACE_MS);
+      }),
+    ]);
+    clearTimeout(grace);
+  }
+
+  /** The agent started a run: idle countdowns are suspended until it ends. */
+  noteAgentStart(): void {
+    this.agentBusy = true;
+    for (const { timer } of this.idleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.idleTimers.clear();
+  }
+
+  /**
+   * The agent finished a run: idle countdowns start from now, and fires held
+   * by `delivery: "waitForIdle"` go out.
+   */
+  noteAgentEnd(): void {
+    this.agentBusy = false;
+    this.armIdleJobs();
+    const waiting = [...this.waitingForIdle.values()];
+    this.waitingForIdle.clear();
+    for (const { job, context } of waiting) {
+      console.log(`Agent idle: delivering held fire of ${job.name} (${job.id})`);
+      void this.executeJob(job, context);
+    }
+  }
+
+  /**
+   * End of the global pause, or `undefined` when not paused. Read from
+   * storage on every call, so a pause set by another pi in the same cwd
+   * applies here too.
+   */
+  getPausedUntil(): Date | undefined {
+    const until = this.storage.getPausedUntil();
+    if (!until) return undefined;
+    const date = new Date(until);
+    return date.getTime() > Date.now() ? date : undefined;
+  }
+
+  /**
+   * Pause every job until `until`. Timers keep running; fires that land in
+   * the pause are skipped by `executeJob` (one-shot fires are deferred to
+   * its end), so enabled flags and schedules are left untouched.
+   */
+  pause(until: Date): void {
+    const pausedUntil = until.toISOString();
+    this.storage.setPausedUntil(pausedUntil);
+    this.syncedPausedUntil = pausedUntil;
+    console.log(`Scheduler paused until ${pausedUntil}`);
+    this.emitChange({ type: "pause", pausedUntil });
+  }
+
+  /** End the pause early. One-shot fires the pause deferred go out right away. */
+  resume(): void {
+    this.storage.setPausedUntil(undefined);
+    this.syncedPausedUntil = undefined;
+    console.log("Scheduler resumed");
+    this.emitChange({ type: "pause" });
+    // Quiet-hours deferrals are released too; `executeJob` re-checks the
+    // window and defers them again.
+    for (const { fire } of [...this.deferred.values()]) fire();
+  }
+
+  /**
+   * Get next run time for a job. `null` when the next tick would fall after
+   * the job's `endAt`. For an `idle` job, the time its armed threshold is
+   * crossed. Pending skips move it past the skipped ticks (unknown, so
+   * `null`, for an idle job); a snooze moves it to the snooze's end.
    */
   getNextRun(jobId: string): Date | null {
+    const job = this.storage.getJob(jobId);
+    const skip = job?.skipCount ?? 0;
+    let next: Date | null = null;
+    const idle = this.idleTimers.get(jobId);
     const cron = this.jobs.get(jobId);
-    if (cron) {
-      const next = cron.nextRun();
-      return next || null;
+    if (idle) {
+      next = skip ? null : idle.at;
+    } else if (cron) {
+      next = cron.nextRuns(skip + 1)[skip] ?? null;
+    } else if (job && this.intervals.has(jobId)) {
+      if (job.type === "interval" && job.intervalMs) {
+        const tick = CronScheduler.nextIntervalTick(job, new Date());
+        next = tick && new Date(tick.getTime() + skip * job.intervalMs);
+      } else if (job.type === "once") {
+        // A one-shot has a single fire: skipping it leaves nothing ahead.
+        next = skip ? null : CronScheduler.onceTarget(job);
+      }
     }
-    return null;
+    if (next && job?.endAt && next.getTime() > new Date(job.endAt).getTime()) return null;
+    const snoozedUntil = job?.snoozedUntil ? new Date(job.snoozedUntil) : undefined;
+    if (next && snoozedUntil && next.getTime() < snoozedUntil.getTime()) return snoozedUntil;
+    return next;
+  }
+
+  /**
+   * Run `jobId` now, outside its schedule, through the normal `executeJob`
+   * path: the run is counted in the job's stats, its timers are left alone.
+   * Disabled jobs run too. `mode` overrides how it runs — `"inline"` sends a
+   * subagent job's prompt to the chat, `"subagent"` runs an inline job in a
+   * subagent on `model` (the job's own model by default). Throws when the
+   * job isn't loaded here or no model is known for a subagent run.
+   */
+  runNow(jobId: string, mode?: "inline" | "subagent", model?: string): void {
+    const job = this.storage.getJob(jobId);
+    if (!job || !CronScheduler.isLoadedFor(job, this.ctx.sessionManager.getSessionId())) {
+      throw new Error(`Job not found in this session: ${jobId}`);
+    }
+    let run = job;
+    if (mode === "inline") {
+      run = { ...job, model: undefined };
+    } else if (mode === "subagent" || model) {
+      const subagentModel = model ?? job.model;
+      if (!subagentModel) {
+        throw new Error(`Job ${job.name} (${job.id}) has no model; pass one to run it in a subagent`);
+      }
+      run = { ...job, model: subagentModel };
+    }
+    console.log(`Running ${job.name} (${job.id}) now${run.model ? ` in a subagent (${run.model})` : " inline"}`);
+    void this.executeJob(run, undefined, true);
+  }
+
+  /**
+   * Snooze `jobId` until `until`: fires due before then are held and go out
+   * as one fire at `until`. `undefined` ends a snooze; a fire it was holding
+   * goes out right away.
+   */
+  snooze(jobId: string, until: Date | undefined): void {
+    const snoozedUntil = until?.toISOString();
+    this.storage.updateJob(jobId, { snoozedUntil });
+    const job = this.storage.getJob(jobId);
+    if (job) this.emitChange({ type: "update", job });
+    // A held fire re-runs `executeJob`, which holds it again until the new end.
+    this.deferred.get(jobId)?.fire();
+  }
+
+  /** Skip the next `count` fires of `jobId`; 0 cancels pending skips. */
+  skip(jobId: string, count: number): void {
+    this.storage.updateJob(jobId, { skipCount: count || undefined });
+    const job = this.storage.getJob(jobId);
+    if (job) this.emitChange({ type: "update", job });
+  }
+
+  /**
+   * When a snooze of `ms` ends: that long after the job's next run, or
+   * after now when it has no known next run. Snoozing a snoozed job pushes
+   * it further back.
+   */
+  snoozeEnd(jobId: string, ms: number): Date {
+    const next = this.getNextRun(jobId)?.getTime() ?? Date.now();
+    return new Date(Math.max(next, Date.now()) + ms);
   }
 
   /**
    * Schedule a single job
    */
   private scheduleJob(job: CronJob): void {
+    if (CronScheduler.checkRunLimits(job, new Date()) === "exhausted") {
+      this.expireJob(job);
+      return;
+    }
     try {
-      if (job.type === "interval" && job.intervalMs) {
-        // Interval-based scheduling
-        const interval = setInterval(() => {
-          this.executeJob(job);
-        }, job.intervalMs);
-        this.intervals.set(job.id, interval);
+      if (job.type === "after") {
+        // Nothing to arm: `fireChainedJobs` fires it when its upstream finishes.
+      } else if (job.type === "watch") {
+        const close = watchFiles(
+          this.ctx.cwd,
+          job.watch ?? [],
+          job.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS,
+          (paths) => {
+            this.executeJob(job, CronScheduler.describeChangedPaths(paths));
+          },
+        );
+        this.watchers.set(job.id, close);
+      } else if (job.type === "git") {
+        const close = watchGit(this.ctx.cwd, job.schedule || GIT_HEAD, (change) => {
+          this.fireGitJob(job, change);
+        });
+        this.watchers.set(job.id, close);
+      } else if (job.type === "idle") {
+        // Armed now if the agent is idle, otherwise on the next `agent_end`.
+        if (!this.agentBusy) this.armIdleJob(job);
+      } else if (CronScheduler.isLifecycle(job.type)) {
+        // Lifecycle jobs: `fireLifecycleJobs` fires them on session events.
+      } else if (job.type === "interval" && job.intervalMs) {
+        // Ticks follow the persisted anchor, so a restart keeps the original
+        // cadence. Each tick re-arms for the next one from the anchor rather
+        // than from when its timer happened to run, so delays don't add up.
+        let anchored = job;
+        if (!job.anchorAt) {
+          anchored = { ...job, anchorAt: new Date().toISOString() };
+          this.storage.updateJob(job.id, { anchorAt: anchored.anchorAt });
+        }
+        this.armIntervalTick(anchored);
       } else if (job.type === "once") {
         // One-shot execution at a specific time
-        const targetDate = new Date(job.schedule);
+        const targetDate = CronScheduler.onceTarget(job);
         const now = new Date();
         const delay = targetDate.getTime() - now.getTime();
 
         if (delay > 0) {
-          const timeout = setTimeout(() => {
-            this.executeJob(job);
-            // Auto-disable one-shot jobs after execution
-            this.storage.updateJob(job.id, { enabled: false });
-            this.emitChange({ type: "update", job: { ...job, enabled: false } });
-          }, delay);
-          // Store as interval for cleanup purposes
-          this.intervals.set(job.id, timeout as any);
+          setTimeoutAt(
+            targetDate,
+            () => {
+              if (this.checkClock()) return;
+              this.executeJob(job);
+              // Auto-disable one-shot jobs after execution — unless quiet hours
+              // or a pause deferred it, then the deferred fire disables it.
+              if (!this.deferred.has(job.id)) this.disableOnceJob(job);
+            },
+            // Store as interval for cleanup purposes
+            (timeout) => this.intervals.set(job.id, timeout),
+          );
+        } else if (this.deferred.has(job.id)) {
+          // A caught-up fire held back until later — it fires from there.
         } else {
           // Job is in the past - disable it and log warning
           console.warn(`Job ${job.id} (${job.name}) scheduled for past time: ${job.schedule}`);
@@ -168,7 +992,14 @@ export class CronScheduler {
         }
       } else {
         // Standard cron expression
-        const cron = new Cron(job.schedule, () => {
+        // croner skips ticks before `startAt` itself, so `nextRun` is right too.
+        // `endAt` is enforced in `executeJob` instead of via `stopAt`: croner
+        // would just go quiet, leaving the job enabled forever.
+        const startAt = job.startAt ? new Date(job.startAt) : undefined;
+        // croner re-reads the wall clock at least every 30s, so after a wake
+        // it can fire a slept-through tick before the drift monitor notices.
+        const cron = new Cron(job.schedule, { timezone: job.timezone, startAt }, () => {
+          if (this.checkClock()) return;
           this.executeJob(job);
         });
         this.jobs.set(job.id, cron);
@@ -183,6 +1014,25 @@ export class CronScheduler {
     }
   }
 
+  /**
+   * Arm the timer for the next tick of an anchored interval job after
+   * `after` — the tick that just fired, so a timer running a little early
+   * can't land on the same tick again.
+   */
+  private armIntervalTick(job: CronJob, after = new Date()): void {
+    const next = CronScheduler.nextIntervalTick(job, after);
+    if (!next) return;
+    setTimeoutAt(
+      next,
+      () => {
+        if (this.checkClock()) return;
+        this.armIntervalTick(job, next);
+        this.executeJob(job, undefined, false, { dueAt: next });
+      },
+      (timer) => this.intervals.set(job.id, timer),
+    );
+  }
+
   /**
    * Unschedule a job
    */
@@ -198,22 +1048,327 @@ export class CronScheduler {
       clearInterval(interval);
       this.intervals.delete(id);
     }
+
+    const closeWatcher = this.watchers.get(id);
+    if (closeWatcher) {
+      closeWatcher();
+      this.watchers.delete(id);
+    }
+
+    const idle = this.idleTimers.get(id);
+    if (idle) {
+      clearTimeout(idle.timer);
+      this.idleTimers.delete(id);
+    }
+    // Rescheduled (updated, re-enabled) idle jobs count down afresh.
+    this.idleFired.delete(id);
+
+    if (this.waitingForIdle.delete(id) && this.storage.getJob(id)?.lastStatus === "deferred") {
+      this.storage.updateJob(id, { lastStatus: undefined });
+    }
+
+    // A fire waiting out quiet hours belongs to the old schedule.
+    const deferred = this.deferred.get(id);
+    if (deferred) {
+      clearTimeout(deferred.timeout);
+      this.deferred.delete(id);
+      if (this.storage.getJob(id)?.lastStatus === "deferred") {
+        this.storage.updateJob(id, { lastStatus: undefined, deferredUntil: undefined });
+      }
+    }
+  }
+
+  /**
+   * (Re)start the countdown of `job`'s idle threshold, unless it already
+   * fired since the last user activity. When it runs out the job fires once
+   * and stays quiet until `noteActivity` — its own prompt's agent run
+   * doesn't count as activity, so it can't loop.
+   */
+  private armIdleJob(job: CronJob): void {
+    if (!job.intervalMs || this.idleFired.has(job.id)) return;
+    const existing = this.idleTimers.get(job.id);
+    if (existing) clearTimeout(existing.timer);
+    // `setTimeoutAt` hands over the first chunk's handle before it returns.
+    const entry = { at: new Date(Date.now() + job.intervalMs) } as { timer: NodeJS.Timeout; at: Date };
+    setTimeoutAt(
+      entry.at,
+      () => {
+        this.idleTimers.delete(job.id);
+        this.idleFired.add(job.id);
+        this.executeJob(job);
+      },
+      (timer) => {
+        entry.timer = timer;
+      },
+    );
+    this.idleTimers.set(job.id, entry);
+  }
+
+  /** Arm every enabled `idle` job loaded for this session. */
+  private armIdleJobs(): void {
+    const mySessionId = this.ctx.sessionManager.getSessionId();
+    for (const job of this.storage.getAllJobs()) {
+      if (job.type !== "idle" || !job.enabled) continue;
+      if (!CronScheduler.isLoadedFor(job, mySessionId)) continue;
+      this.armIdleJob(job);
+    }
+  }
+
+  /** Auto-disable a one-shot job after it fired. */
+  private disableOnceJob(job: CronJob): void {
+    this.storage.updateJob(job.id, { enabled: false });
+    this.markSynced({ ...job, enabled: false });
+    this.emitChange({ type: "update", job: { ...job, enabled: false } });
+  }
+
+  /** Quiet hours in effect for `job`: its own override, else the global setting. */
+  private quietHoursFor(job: CronJob): QuietHours | undefined {
+    if (job.quietHours === false) return undefined;
+    return job.quietHours ?? this.getSettings().quietHours;
+  }
+
+  /**
+   * Hold back a fire that landed in quiet hours. `drop` discards it; `defer`
+   * re-runs `executeJob` once the window ends. Repeated fires during the same
+   * window coalesce into the one deferred fire. Either way the decision is
+   * recorded in `lastStatus` for the widget.
+   */
+  private holdForQuietHours(
+    job: CronJob,
+    quiet: QuietHours,
+    until: Date,
+    context: string | undefined,
+  ): void {
+    if ((quiet.action ?? "defer") === "drop") {
+      console.log(`Quiet hours: dropped fire of ${job.name} (${job.id})`);
+      this.storage.updateJob(job.id, { lastStatus: "dropped" });
+      this.emitChange({ type: "update", job: { ...job, lastStatus: "dropped" } });
+      return;
+    }
+    this.deferFire(job, until, context, "Quiet hours");
+  }
+
+  /**
+   * Re-run `executeJob` for `job` at `until`, coalescing with a fire already
+   * deferred. A deferred one-shot job is disabled once its fire goes through.
+   */
+  private deferFire(job: CronJob, until: Date, context: string | undefined, why: string): void {
+    if (this.deferred.has(job.id)) return;
+    console.log(`${why}: deferred ${job.name} (${job.id}) until ${until.toISOString()}`);
+    const fire = () => {
+      clearTimeout(entry.timeout);
+      this.deferred.delete(job.id);
+      this.storage.updateJob(job.id, { deferredUntil: undefined });
+      this.executeJob(job, context);
+      if (job.type === "once" && !this.deferred.has(job.id)) this.disableOnceJob(job);
+    };
+    // `setTimeoutAt` hands over the first chunk's handle before it returns.
+    const entry = { fire, until } as { timeout: NodeJS.Timeout; fire: () => void; until: Date };
+    setTimeoutAt(until, fire, (timeout) => {
+      entry.timeout = timeout;
+    });
+    this.deferred.set(job.id, entry);
+    const deferredUntil = until.toISOString();
+    this.storage.updateJob(job.id, { lastStatus: "deferred", deferredUntil });
+    this.emitChange({ type: "update", job: { ...job, lastStatus: "deferred", deferredUntil } });
+  }
+
+  /**
+   * Disable a job that will never fire again (`maxRuns` used up, `endAt`
+   * passed) — same storage write and change event as a fired one-shot job.
+   */
+  private expireJob(job: CronJob): void {
+    console.log(`Job ${job.name} (${job.id}) reached its run limit; disabling`);
+    this.unscheduleJob(job.id);
+    this.storage.updateJob(job.id, { enabled: false });
+    this.markSynced({ ...job, enabled: false });
+    this.emitChange({ type: "update", job: { ...job, enabled: false } });
+  }
+
+  /** Expire `jobId` if the run just recorded used up its `maxRuns`. */
+  private expireIfExhausted(jobId: string): void {
+    const latest = this.storage.getJob(jobId);
+    if (latest?.enabled && CronScheduler.checkRunLimits(latest, new Date()) === "exhausted") {
+      this.expireJob(latest);
+    }
+  }
+
+  /**
+   * Fire the enabled `after` jobs chained to the job a run-outcome event is
+   * about, if the event's outcome matches their `chainOn` condition. Events
+   * without an `outcome` (run start, schedule errors) are ignored. With
+   * `passOutput`, the upstream's output (or error) is appended to the prompt.
+   */
+  private fireChainedJobs(event: CronChangeEvent): void {
+    if (!event.outcome) return;
+    const upstreamId = event.job?.id ?? event.jobId;
+    if (!upstreamId) return;
+    const upstream = this.storage.getJob(upstreamId);
+
+    for (const job of this.storage.getAllJobs()) {
+      if (job.type !== "after" || job.schedule !== upstreamId || !job.enabled) continue;
+      const on = job.chainOn ?? "onSuccess";
+      if (on === "onSuccess" && event.outcome !== "success") continue;
+      if (on === "onFailure" && event.outcome !== "failure") continue;
+
+      let context: string | undefined;
+      if (job.passOutput) {
+        const name = upstream?.name ?? upstreamId;
+        const body = event.outcome === "success" ? event.output : event.error;
+        const label =
+          event.outcome === "success"
+            ? `Output of upstream job "${name}"`
+            : `Upstream job "${name}" failed`;
+        context = `${label}:\n${body?.trim() || "(no output)"}`;
+      }
+      console.log(`Chain: ${upstreamId} ${event.outcome} → firing ${job.name} (${job.id})`);
+      void this.executeJob(job, context);
+    }
+  }
+
+  /**
+   * Fire a `git` job for a moved branch tip, upstream or checkout.
+   * `{{branch}}`, `{{oldSha}}` and `{{newSha}}` in the prompt are filled in;
+   * a prompt without placeholders gets a one-line summary of the change
+   * appended instead.
+   */
+  private fireGitJob(job: CronJob, change: GitChange): void {
+    const fresh = this.storage.getJob(job.id) ?? job;
+    const rendered = renderGitPrompt(fresh.prompt, change);
+    const short = (sha: string) => (sha ? sha.slice(0, 7) : "(none)");
+    const summary =
+      change.oldSha === change.newSha
+        ? `Git: checked out ${change.branch} at ${short(change.newSha)}`
+        : `Git: ${change.branch} moved from ${short(change.oldSha)} to ${short(change.newSha)}`;
+    const context = rendered === fresh.prompt ? summary : undefined;
+    console.log(`Git: ${change.branch} ${short(change.oldSha)} → ${short(change.newSha)}, firing ${job.name} (${job.id})`);
+    void this.executeJob({ ...fresh, prompt: rendered }, context);
   }
 
   /**
-   * Execute a job's prompt
+   * Execute a job's prompt. `context` (upstream output for chained jobs,
+   * changed paths for watch jobs) is appended to the prompt that's delivered;
+   * markers keep showing the job's own prompt. A job's `when` precondition
+   * is checked last, right before dispatch. `due` gives the fire's scheduled
+   * time where the caller knows it — its lease slot; a run slept through
+   * records how late it went out in `lateByMs`.
    */
-  private async executeJob(job: CronJob): Promise<void> {
+  private async executeJob(job: CronJob, context?: string, manual = false, due?: DueFire): Promise<void> {
     // Re-read before firing — closure-captured `job` is stale if storage was
     // edited mid-tick (removed, disabled, or `session` rebound by hand-edit).
     const fresh = this.storage.getJob(job.id);
-    if (!fresh?.enabled) return;
+    if (!fresh || (!fresh.enabled && !manual)) return;
     if (!CronScheduler.isLoadedFor(fresh, this.ctx.sessionManager.getSessionId())) return;
 
+    // A manual run (`runNow`) skips every gate about *when* the job may
+    // fire — run limits, pause, snooze, skips, quiet hours, a busy agent.
+    // Its `when` precondition still applies.
+
+    // A timed fire reaches every pi (and headless runner) that loaded the
+    // job — all of them for a shared job, and a session-bound one's session
+    // plus a runner started with `--all-sessions`. The first to claim the slot fires.
+    const slot = due?.dueAt.getTime() ?? this.slotOf(fresh);
+    if (!manual && CronScheduler.isTimed(fresh.type)) {
+      if (!this.storage.claimSlot(job.id, slot)) {
+        console.log(`Fire of ${job.name} (${job.id}) claimed by another process; skipping`);
+        return;
+      }
+      // Whatever the gates below make of it, this tick is dealt with: a later
+      // catch-up counts from it and never replays a fire suppressed on purpose.
+      const lastTick = fresh.lastTick ? new Date(fresh.lastTick).getTime() : Number.NEGATIVE_INFINITY;
+      if (Number.isFinite(slot) && slot > lastTick) {
+        this.storage.updateJob(job.id, { lastTick: new Date(slot).toISOString() });
+      }
+    }
+
+    // Interval timers tick regardless of `startAt`; `endAt` and `maxRuns`
+    // are only noticed at the next tick after they're crossed.
+    const limit = manual ? null : CronScheduler.checkRunLimits(fresh, new Date());
+    if (limit === "notStarted") return;
+    if (limit === "exhausted") {
+      this.expireJob(fresh);
+      return;
+    }
+
+    // A pause drops recurring fires. A one-shot job has no next fire, so
+    // its fire waits for the pause to end instead of being lost.
+    const pausedUntil = manual ? undefined : this.getPausedUntil();
+    if (pausedUntil) {
+      if (fresh.type === "once") {
+        this.deferFire(fresh, pausedUntil, context, "Paused");
+        return;
+      }
+      const reason = `paused until ${formatISOShort(pausedUntil)}`;
+      console.log(`Scheduler ${reason}: skipped fire of ${job.name} (${job.id})`);
+      this.storage.updateJob(job.id, { lastStatus: "skipped", lastSkipReason: reason });
+      this.emitChange({ type: "update", job: { ...fresh, lastStatus: "skipped", lastSkipReason: reason } });
+      return;
+    }
+
+    // A snooze holds every fire due before its end and sends one then.
+    // `job`, not `fresh`: a git job's fire carries its rendered prompt.
+    if (!manual && fresh.snoozedUntil) {
+      const snoozedUntil = new Date(fresh.snoozedUntil);
+      if (snoozedUntil.getTime() > Date.now()) {
+        this.deferFire(job, snoozedUntil, context, "Snoozed");
+        return;
+      }
+      this.storage.updateJob(job.id, { snoozedUntil: undefined });
+    }
+
+    if (!manual && fresh.skipCount) {
+      const skipCount = fresh.skipCount - 1 || undefined;
+      const reason = skipCount ? `skipped on request, ${skipCount} more to skip` : "skipped on request";
+      console.log(`Skipping ${job.name} (${job.id}): ${reason}`);
+      const partial = { lastStatus: "skipped" as const, lastSkipReason: reason, skipCount };
+      this.storage.updateJob(job.id, partial);
+      this.emitChange({ type: "update", job: { ...fresh, ...partial } });
+      return;
+    }
+
+    const quiet = manual ? undefined : this.quietHoursFor(fresh);
+    const quietUntil = quiet ? quietHoursEnd(quiet, new Date()) : null;
+    if (quiet && quietUntil) {
+      this.holdForQuietHours(fresh, quiet, quietUntil, context);
+      return;
+    }
+
+    // Only jobs with a precondition wait here; the rest dispatch synchronously.
+    if (fresh.when) {
+      const reason = await checkPrecondition(fresh.when, this.ctx.cwd);
+      if (reason !== null) {
+        console.log(`Precondition failed, skipping ${job.name} (${job.id}): ${reason}`);
+        this.storage.updateJob(job.id, { lastStatus: "skipped", lastSkipReason: reason });
+        this.emitChange({ type: "update", job: { ...fresh, lastStatus: "skipped", lastSkipReason: reason } });
+        return;
+      }
+      this.storage.updateJob(job.id, { lastSkipReason: undefined });
+    }
+
+    const prompt = context ? `${job.prompt}\n\n${context}` : job.prompt;
+
+    // Subagent runs don't touch the chat, so only inline jobs mind a busy agent.
+    const delivery = fresh.delivery ?? "followUp";
+    if (!manual && !job.model && this.agentBusy && delivery === "dropIfBusy") {
+      console.log(`Agent busy: dropped fire of ${job.name} (${job.id})`);
+      this.storage.updateJob(job.id, { lastStatus: "dropped" });
+      this.emitChange({ type: "update", job: { ...fresh, lastStatus: "dropped" } });
+      return;
+    }
+    if (!manual && !job.model && this.agentBusy && delivery === "waitForIdle") {
+      // `job`, not `fresh`: a git job's fire carries its rendered prompt.
+      this.holdUntilIdle(job, context);
+      return;
+    }
+
     console.log(`Executing scheduled prompt: ${job.name} (${job.id})`);
 
+    // Kept until the next run, so the widget and footer can show it.
+    const lateByMs = due?.afterSleep ? Date.now() - due.dueAt.getTime() : undefined;
+    if (lateByMs !== undefined || fresh.lateByMs !== undefined) this.storage.updateJob(job.id, { lateByMs });
+
     if (job.model) {
-      this.executeJobInSubagent(job);
+      this.executeJobInSubagent(job, prompt, context, lateByMs);
       return;
     }
 
@@ -236,11 +1391,11 @@ export class CronScheduler {
         customType: "scheduled_prompt",
         content: [],
         display: true,
-        details: { jobId: job.id, jobName: job.name, prompt: job.prompt },
+        details: { jobId: job.id, jobName: job.name, prompt: job.prompt, lateByMs },
       });
 
       // Then send the actual prompt to the agent — this is the single LLM-visible delivery.
-      this.pi.sendUserMessage(job.prompt, { deliverAs: "followUp" });
+      this.pi.sendUserMessage(prompt, { deliverAs: delivery === "steer" ? "steer" : "followUp" });
 
       // Update job execution stats.
       //
@@ -259,7 +1414,9 @@ export class CronScheduler {
         nextRun: nextRun?.toISOString(),
       });
 
-      this.emitChange({ type: "fire", job });
+      // Inline runs hand the prompt to the parent agent; there is no output to pass on.
+      this.emitChange({ type: "fire", job, outcome: "success" });
+      this.expireIfExhausted(job.id);
     } catch (error) {
       console.error(`Failed to execute job ${job.id}:`, error);
       this.storage.updateJob(job.id, {
@@ -270,15 +1427,88 @@ export class CronScheduler {
         type: "error",
         jobId: job.id,
         error: error instanceof Error ? error.message : String(error),
+        outcome: "failure",
       });
     }
   }
 
+  /**
+   * Hold an inline fire until the agent goes idle (`delivery: "waitForIdle"`).
+   * One held fire per job: later fires coalesce into it.
+   */
+  private holdUntilIdle(job: CronJob, context: string | undefined): void {
+    if (this.waitingForIdle.has(job.id)) {
+      console.log(`Agent busy: coalesced fire of ${job.name} (${job.id}) into the held one`);
+      return;
+    }
+    console.log(`Agent busy: holding fire of ${job.name} (${job.id}) until idle`);
+    this.waitingForIdle.set(job.id, { job, context });
+    this.storage.updateJob(job.id, { lastStatus: "deferred" });
+    this.emitChange({ type: "update", job: { ...job, lastStatus: "deferred" } });
+  }
+
+  /**
+   * Apply the job's `overlap` policy to a fire that finds a previous run still
+   * in flight. Returns true if the fire should go ahead — after `replace`
+   * aborted the old run — and false if it was skipped or queued.
+   */
+  private resolveOverlap(job: CronJob, context: string | undefined): boolean {
+    const inFlight = this.activeSubagents.get(job.id);
+    if (!inFlight?.size) return true;
+
+    const policy = job.overlap ?? "allow";
+    switch (policy) {
+      case "allow":
+        return true;
+      case "replace":
+        console.log(`Overlap: aborting in-flight run of ${job.name} (${job.id})`);
+        for (const controller of inFlight) controller.abort();
+        this.activeSubagents.delete(job.id);
+        return true;
+      case "queue":
+        // One queued fire per job: later fires coalesce into it.
+        if (!this.queuedFires.has(job.id)) {
+          console.log(`Overlap: queued fire of ${job.name} (${job.id})`);
+          this.queuedFires.set(job.id, context);
+          return false;
+        }
+        this.recordSkippedRun(job);
+        return false;
+      case "skip":
+        this.recordSkippedRun(job);
+        return false;
+    }
+  }
+
+  /** Count a fire the overlap policy dropped. Leaves `lastStatus` to the in-flight run. */
+  private recordSkippedRun(job: CronJob): void {
+    console.log(`Overlap: skipped fire of ${job.name} (${job.id}); previous run still in flight`);
+    const skippedRuns = (this.storage.getJob(job.id)?.skippedRuns ?? 0) + 1;
+    this.storage.updateJob(job.id, { skippedRuns });
+    this.emitChange({ type: "update", job: { ...job, skippedRuns } });
+  }
+
+  /** Fire the run `overlap: "queue"` held back, once nothing is in flight. */
+  private drainQueuedFire(job: CronJob): void {
+    if (this.activeSubagents.get(job.id)?.size) return;
+    if (!this.queuedFires.has(job.id)) return;
+    const context = this.queuedFires.get(job.id);
+    this.queuedFires.delete(job.id);
+    void this.executeJob(job, context);
+  }
+
   /**
    * Run a job's prompt in a fresh in-process AgentSession with the chosen model.
    * Fire-and-forget: the cron tick returns immediately so other jobs keep firing.
+   * A fire that finds the previous run still going is handled by the job's
+   * `overlap` policy — see `resolveOverlap`. A failed run is retried per
+   * `job.retry` (backoff doubling each time); the error marker is only posted
+   * once the last retry failed. `timeoutMs` (or the `defaultTimeoutMs`
+   * setting) bounds the whole run, retries included: when it elapses the
+   * run's controller is aborted and the job records `lastStatus: "timeout"`.
    */
-  private executeJobInSubagent(job: CronJob): void {
+  private executeJobInSubagent(job: CronJob, prompt = job.prompt, context?: string, lateByMs?: number): void {
+    if (!this.resolveOverlap(this.storage.getJob(job.id) ?? job, context)) return;
     const model = job.model!;
     const notify = job.notify === true;
     this.storage.updateJob(job.id, { lastStatus: "running" });
@@ -298,24 +1528,100 @@ export class CronScheduler {
         prompt: job.prompt,
         mode: "subagent_start",
         model,
+        lateByMs,
       },
     });
 
+    const retries = job.retry?.attempts ?? 0;
+    const backoffMs =
+      CronScheduler.parseInterval(job.retry?.backoff ?? DEFAULT_RETRY_BACKOFF) ??
+      (CronScheduler.parseInterval(DEFAULT_RETRY_BACKOFF) as number);
+
+    const timeoutMs = job.timeoutMs ?? this.getSettings().defaultTimeoutMs;
+    const startedAt = Date.now();
+
     const controller = new AbortController();
-    this.activeSubagents.add(controller);
+    let timedOut = false;
+    let timeoutTimer: NodeJS.Timeout | undefined;
+    if (timeoutMs) {
+      setTimeoutAt(
+        new Date(startedAt + timeoutMs),
+        () => {
+          timedOut = true;
+          console.warn(`Subagent run of ${job.name} (${job.id}) timed out after ${formatElapsed(timeoutMs)}`);
+          controller.abort();
+        },
+        (timer) => {
+          timeoutTimer = timer;
+        },
+      );
+    }
+    const inFlight = this.activeSubagents.get(job.id) ?? new Set<AbortController>();
+    inFlight.add(controller);
+    this.activeSubagents.set(job.id, inFlight);
 
-    void (async () => {
+    const pending = (async () => {
       try {
+        const run = () =>
+          runSubagentOnce(this.ctx, prompt, model, controller.signal, {
+            extensions: job.extensions,
+            skills: job.skills,
+          });
         let result: SubagentResult;
+        let attempt = 0;
         try {
-          result = await runSubagentOnce(this.ctx, job.prompt, model, controller.signal, { extensions: job.extensions, skills: job.skills });
+          result = await run();
+          while (!result.ok && attempt < retries && !controller.signal.aborted) {
+            attempt++;
+            const delay = backoffMs * 2 ** (attempt - 1);
+            console.log(
+              `Subagent run of ${job.name} (${job.id}) failed; retry ${attempt}/${retries} in ${Math.round(delay / 1000)}s`,
+            );
+            this.storage.updateJob(job.id, { retryAttempt: attempt });
+            this.emitChange({ type: "update", job: { ...job, retryAttempt: attempt } });
+            await sleep(delay, controller.signal);
+            if (controller.signal.aborted) break;
+            try {
+              this.pi.sendMessage({
+                customType: "scheduled_prompt",
+                content: [
+                  { type: "text", text: `🕐 Scheduled (subagent: ${model}, retry ${attempt}/${retries}): ${job.name}` },
+                ],
+                display: true,
+                details: {
+                  jobId: job.id,
+                  jobName: job.name,
+                  prompt: job.prompt,
+                  mode: "subagent_start",
+                  model,
+                  retry: { attempt, attempts: retries },
+                },
+              });
+            } catch (markerErr) {
+              console.error(`Failed to post retry marker for job ${job.id}:`, markerErr);
+            }
+            result = await run();
+          }
         } finally {
-          this.activeSubagents.delete(controller);
+          clearTimeout(timeoutTimer);
+          inFlight.delete(controller);
+          if (inFlight.size === 0 && this.activeSubagents.get(job.id) === inFlight) {
+            this.activeSubagents.delete(job.id);
+          }
         }
 
-        // Scheduler was stopped (session shutdown / switch / fork) while we were
-        // running. Don't touch storage or post markers — pi may be invalidated.
-        if (controller.signal.aborted) return;
+        // Scheduler was stopped (session shutdown / switch / fork), or the run
+        // was replaced by a newer fire (`overlap: "replace"`), while we were
+        // running. Don't touch storage or post markers — pi may be invalidated,
+        // and the newer run owns the job's status. Our own timeout is the one
+        // abort that still reports.
+        if (controller.signal.aborted && !timedOut) return;
+        if (timedOut) {
+          result = {
+            ok: false,
+            error: `Run exceeded its ${formatElapsed(timeoutMs as number)} timeout and was aborted`,
+          };
+        }
 
         const nextRun = this.getNextRun(job.id);
 
@@ -333,8 +1639,10 @@ export class CronScheduler {
             lastStatus: "success",
             runCount: currentRunCount + 1,
             nextRun: nextRun?.toISOString(),
+            retryAttempt: undefined,
           });
-          this.emitChange({ type: "fire", job });
+          this.emitChange({ type: "fire", job, outcome: "success", output: result.text });
+          this.expireIfExhausted(job.id);
           try {
             // notify=true: snippet in `content` + followUp/triggerTurn wakes
             // the parent — it sees the result and reacts.
@@ -354,6 +1662,7 @@ export class CronScheduler {
                   mode: "subagent_done",
                   model,
                   output: outputSnippet,
+                  ...(attempt > 0 ? { retry: { attempt, attempts: retries } } : {}),
                 },
               },
               notify ? { deliverAs: "followUp", triggerTurn: true } : undefined,
@@ -367,10 +1676,11 @@ export class CronScheduler {
           const errorSnippet = snippet(result.error.trim()) || "(subagent failed with empty error)";
           this.storage.updateJob(job.id, {
             lastRun: new Date().toISOString(),
-            lastStatus: "error",
+            lastStatus: timedOut ? "timeout" : "error",
             nextRun: nextRun?.toISOString(),
+            retryAttempt: undefined,
           });
-          this.emitChange({ type: "error", jobId: job.id, error: errorSnippet });
+          this.emitChange({ type: "error", jobId: job.id, error: errorSnippet, outcome: "failure" });
           try {
             // Same notify-gated wake-up as the done marker — see comment above.
             this.pi.sendMessage(
@@ -385,6 +1695,9 @@ export class CronScheduler {
                   mode: "subagent_error",
                   model,
                   error: errorSnippet,
+                  elapsedMs: Date.now() - startedAt,
+                  ...(timedOut ? { timedOut: true } : {}),
+                  ...(attempt > 0 ? { retry: { attempt, attempts: retries } } : {}),
                 },
               },
               notify ? { deliverAs: "followUp", triggerTurn: true } : undefined,
@@ -397,8 +1710,12 @@ export class CronScheduler {
         // Outer backstop: anything else (e.g. storage write failure) shouldn't
         // escape the IIFE as an unhandled rejection.
         console.error(`Subagent completion handler failed for job ${job.id}:`, error);
+      } finally {
+        if (!controller.signal.aborted) this.drainQueuedFire(job);
       }
     })();
+    this.subagentRuns.set(pending, job.id);
+    void pending.finally(() => this.subagentRuns.delete(pending));
   }
 
   /**
@@ -409,21 +1726,37 @@ export class CronScheduler {
   }
 
   /**
-   * Validate a cron expression (must be 6-field format with seconds)
+   * Rewrite a cron expression into the canonical 6-field form that is
+   * persisted: `@daily`-style nicknames expand to their 6-field equivalent
+   * and standard 5-field crontab lines gain a leading `0` seconds field.
+   * Anything else is returned whitespace-normalized but otherwise untouched.
+   */
+  static normalizeCronExpression(expression: string): string {
+    const trimmed = expression.trim();
+    const nickname = CRON_NICKNAMES[trimmed.toLowerCase()];
+    if (nickname) return nickname;
+    const fields = trimmed.split(/\s+/);
+    return fields.length === 5 ? `0 ${fields.join(" ")}` : fields.join(" ");
+  }
+
+  /**
+   * Validate a cron expression: 6-field (with seconds), standard 5-field, or
+   * an `@hourly`/`@daily`/`@weekly`/`@monthly`/`@yearly` nickname
    */
   static validateCronExpression(expression: string): { valid: boolean; error?: string } {
-    // Count fields - must be 6 (second minute hour dom month dow)
-    const fields = expression.trim().split(/\s+/);
+    // Count fields after normalization - must be 6 (second minute hour dom month dow)
+    const normalized = CronScheduler.normalizeCronExpression(expression);
+    const fields = normalized.split(/\s+/);
     if (fields.length !== 6) {
       return {
         valid: false,
-        error: `Cron expression must have 6 fields (second minute hour dom month dow), got ${fields.length}. Example: "0 * * * * *" for every minute`,
+        error: `Cron expression must have 5 fields (minute hour dom month dow) or 6 fields (second minute hour dom month dow), got ${fields.length}. Example: "*/5 * * * *" or "0 */5 * * * *" for every 5 minutes, or a nickname like "@daily"`,
       };
     }
 
     try {
       // Try parsing as cron expression
-      new Cron(expression, () => {});
+      new Cron(normalized, () => {}).stop();
       return { valid: true };
     } catch (error) {
       return {
@@ -480,12 +1813,73 @@ export class CronScheduler {
    * Validate and resolve a schedule string for the given type.
    * Single source of truth shared by tool `add`/`update` and the UI command.
    *
-   * - `cron`: validates the 6-field expression
+   * - `cron`: accepts 6-field, 5-field and `@daily`-style nicknames; resolves
+   *   to the canonical 6-field form so `humanizeCron` and the widget match it
    * - `once`: accepts ISO timestamps and relative time (`+10s`); rejects past
    *   timestamps and ones <5s away (the agent should use relative time instead)
    * - `interval`: accepts duration strings (`5m`, `1h`, `30s`)
+   *
+   * `timezone`, when set, must be an IANA zone id. Zone-less ISO timestamps
+   * (`2026-02-13T15:30`) are then read as wall-clock time in that zone.
+   *
+   * If `schedule` isn't valid for `type`, English phrases ("every weekday at
+   * 9am", "tomorrow at 3pm") are tried via `parseNaturalSchedule`. The phrase
+   * decides the job type, so callers must persist the returned `type`.
+   */
+  static validateSchedule(
+    type: CronJobType,
+    schedule: string,
+    timezone?: string,
+  ): ValidateScheduleResult {
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return {
+        ok: false,
+        error: `Unknown timezone: ${timezone}. Use an IANA zone id like 'Europe/Berlin' or 'America/New_York'`,
+      };
+    }
+
+    const native = CronScheduler.resolveSchedule(type, schedule, timezone);
+    if (native.ok) return native;
+
+    const natural = parseNaturalSchedule(schedule, new Date(), timezone);
+    if (!natural) return native;
+    return CronScheduler.resolveSchedule(natural.type, natural.schedule, timezone);
+  }
+
+  /**
+   * Resolve a `startAt` / `endAt` bound to the ISO timestamp that is
+   * persisted. Accepts the same point-in-time forms as a `once` schedule:
+   * ISO timestamps (zone-less ones read in `timezone`), relative time
+   * (`+2d`), and one-shot English phrases ("friday at 5pm"). Past times are
+   * allowed here — callers decide whether that makes sense.
    */
-  static validateSchedule(type: CronJobType, schedule: string): ValidateScheduleResult {
+  static resolveTimeBound(input: string, timezone?: string): ResolveTimeBoundResult {
+    const trimmed = input.trim();
+    const relative = CronScheduler.parseRelativeTime(trimmed);
+    if (relative) return { ok: true, at: relative };
+
+    const date = parseTimestamp(trimmed, timezone);
+    if (!Number.isNaN(date.getTime())) return { ok: true, at: date.toISOString() };
+
+    const natural = parseNaturalSchedule(trimmed, new Date(), timezone);
+    if (natural?.type === "once") {
+      const resolved =
+        CronScheduler.parseRelativeTime(natural.schedule) ??
+        parseTimestamp(natural.schedule, timezone).toISOString();
+      return { ok: true, at: resolved };
+    }
+    return {
+      ok: false,
+      error: `Invalid time: ${input}. Use an ISO timestamp, relative time like '+2d', or a phrase like 'friday at 5pm'`,
+    };
+  }
+
+  /** Native-format half of `validateSchedule`: no natural-language fallback. */
+  private static resolveSchedule(
+    type: CronJobType,
+    schedule: string,
+    timezone: string | undefined,
+  ): ValidateScheduleResult {
     if (type === "interval") {
       const intervalMs = CronScheduler.parseInterval(schedule);
       if (!intervalMs) {
@@ -494,14 +1888,14 @@ export class CronScheduler {
           error: `Invalid interval format: ${schedule}. Use format like '5m', '1h', '30s'`,
         };
       }
-      return { ok: true, schedule, intervalMs };
+      return { ok: true, type, schedule, intervalMs };
     }
 
     if (type === "once") {
       const relative = CronScheduler.parseRelativeTime(schedule);
-      if (relative) return { ok: true, schedule: relative };
+      if (relative) return { ok: true, type, schedule: relative };
 
-      const date = new Date(schedule);
+      const date = parseTimestamp(schedule, timezone);
       if (Number.isNaN(date.getTime())) {
         return {
           ok: false,
@@ -521,7 +1915,7 @@ export class CronScheduler {
           error: `Timestamp is too soon (${Math.round(delay / 1000)}s). For delays under 5s, use relative time like '+${Math.ceil(delay / 1000)}s' instead, or schedule at least 5s in the future.`,
         };
       }
-      return { ok: true, schedule: date.toISOString() };
+      return { ok: true, type, schedule: date.toISOString() };
     }
 
     // cron
@@ -529,24 +1923,46 @@ export class CronScheduler {
     if (!validation.valid) {
       return { ok: false, error: `Invalid cron expression: ${validation.error}` };
     }
-    return { ok: true, schedule };
+    return { ok: true, type, schedule: CronScheduler.normalizeCronExpression(schedule) };
   }
 
   /**
    * Render a resolved schedule as a short human-readable phrase.
    * Used for confirm dialogs and the widget. `schedule` is the resolved form
-   * returned by `validateSchedule` (ISO for `once`).
+   * returned by `validateSchedule` (ISO for `once`). With a `timezone`, the
+   * time is rendered in that zone and the zone id is appended.
    */
-  static describeSchedule(type: CronJobType, schedule: string): string {
+  static describeSchedule(type: CronJobType, schedule: string, timezone?: string): string {
     if (type === "interval") return `every ${schedule}`;
+    if (type === "after") return `after ${schedule}`;
+    if (type === "watch") return `on change: ${schedule}`;
+    if (type === "idle") return `idle ${schedule}`;
+    if (type === "git") return schedule === GIT_HEAD ? "on commit" : `on commit to ${schedule}`;
+    if (type === "onSessionStart") return "on session start";
+    if (type === "onResume") return "on resume";
+    if (type === "onShutdown") return "on shutdown";
+    let human: string;
     if (type === "once") {
       const date = new Date(schedule);
-      return Number.isNaN(date.getTime()) ? schedule : formatISOShort(date);
+      human = Number.isNaN(date.getTime()) ? schedule : formatISOShort(date, timezone);
+    } else {
+      human = humanizeCron(schedule);
     }
-    return humanizeCron(schedule);
+    return timezone ? `${human} (${timezone})` : human;
   }
 }
 
+/** Crontab nicknames and their canonical 6-field expansion. */
+const CRON_NICKNAMES: Record<string, string> = {
+  "@yearly": "0 0 0 1 1 *",
+  "@annually": "0 0 0 1 1 *",
+  "@monthly": "0 0 0 1 * *",
+  "@weekly": "0 0 0 * * 0",
+  "@daily": "0 0 0 * * *",
+  "@midnight": "0 0 0 * * *",
+  "@hourly": "0 0 * * * *",
+};
+
 const HUMANIZED_CRON: Record<string, string> = {
   "* * * * * *": "every second",
   "0 * * * * *": "every minute",
@@ -561,6 +1977,7 @@ const HUMANIZED_CRON: Record<string, string> = {
   "0 0 0 * * *": "daily",
   "0 0 0 * * 0": "weekly",
   "0 0 0 1 * *": "monthly",
+  "0 0 0 1 1 *": "yearly",
   "0 0 9 * * 1-5": "9am weekdays",
   "0 0 0 * * 1-5": "weekdays",
   "0 0 0 * * 0,6": "weekends",
@@ -588,10 +2005,17 @@ export function humanizeCron(expression: string): string {
 const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
 /** Compact ISO timestamp render: "Feb 13 15:30". Returns the input unchanged
- *  if it doesn't parse as a date. */
-export function formatISOShort(input: Date | string): string {
+ *  if it doesn't parse as a date. Renders in `timeZone` when given, host
+ *  local time otherwise. */
+export function formatISOShort(input: Date | string, timeZone?: string): string {
   const date = typeof input === "string" ? new Date(input) : input;
   if (Number.isNaN(date.getTime())) return String(input);
+  if (timeZone) {
+    const wall = zonedWallClock(date.getTime(), timeZone);
+    const hh = wall.hour.toString().padStart(2, "0");
+    const mm = wall.minute.toString().padStart(2, "0");
+    return `${MONTHS[wall.month - 1]} ${wall.day} ${hh}:${mm}`;
+  }
   const month = MONTHS[date.getMonth()];
   const day = date.getDate();
   const hours = date.getHours().toString().padStart(2, "0");
@@ -5,6 +5,8 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { getAgentDir } from "@earendil-works/pi-coding-agent";
+import { validateQuietHours } from "./quiet-hours.js";
+import type { QuietHours } from "./types.js";
 
 export type JobScope = "session" | "workdir";
 
@@ -17,6 +19,17 @@ export interface ScheduleSettings {
    * `"workdir"` omits the field so every pi in this cwd fires it.
    */
   defaultJobScope?: JobScope;
+  /**
+   * Quiet hours for every job that doesn't set its own `quietHours`. Fires
+   * inside a window are deferred to its end (default) or dropped. Hand-edited;
+   * the UI only shows it.
+   */
+  quietHours?: QuietHours;
+  /**
+   * Timeout in ms for subagent jobs that don't set their own `timeoutMs`.
+   * Default: none — a run may take as long as it likes. Hand-edited.
+   */
+  defaultTimeoutMs?: number;
 }
 
 const FILE = "schedule-prompts-settings.json";
@@ -29,6 +42,14 @@ function sanitize(raw: unknown): ScheduleSettings {
   if (r.defaultJobScope === "session" || r.defaultJobScope === "workdir") {
     out.defaultJobScope = r.defaultJobScope;
   }
+  if (typeof r.defaultTimeoutMs === "number" && Number.isInteger(r.defaultTimeoutMs) && r.defaultTimeoutMs > 0) {
+    out.defaultTimeoutMs = r.defaultTimeoutMs;
+  }
+  if (r.quietHours !== undefined) {
+    const quiet = validateQuietHours(r.quietHours);
+    if (quiet.ok) out.quietHours = quiet.quietHours;
+    else console.warn(`[pi-schedule-prompt] Ignoring quietHours setting: ${quiet.error}`);
+  }
   return out;
 }
 
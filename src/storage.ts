@@ -1,5 +1,6 @@
 import * as fs from "fs";
 import * as path from "path";
+import { claimLease } from "./lease.js";
 import type { CronJob, CronStore } from "./types.js";
 
 /**
@@ -115,6 +116,44 @@ export class CronStorage {
     return store.jobs;
   }
 
+  /**
+   * Get the global pause, if one was set (it may already have ended)
+   */
+  getPausedUntil(): string | undefined {
+    return this.load().pausedUntil;
+  }
+
+  /**
+   * Set or clear (`undefined`) the global pause
+   */
+  setPausedUntil(pausedUntil: string | undefined): void {
+    const store = this.load();
+    store.pausedUntil = pausedUntil;
+    this.save(store);
+  }
+
+  /**
+   * Claim the fire of `jobId` scheduled at `slot` (epoch ms) for this
+   * process — `false` if another live pi or runner in the cwd has it
+   */
+  claimSlot(jobId: string, slot: number): boolean {
+    return claimLease(path.join(this.piDir, "schedule-prompt-leases"), jobId, slot);
+  }
+
+  /**
+   * Call `onChange` whenever the store file changes on disk — written by
+   * this process, another pi, or by hand. Polls the file's mtime every
+   * `intervalMs`, which survives the atomic rename in `save`. Returns a
+   * function that stops watching.
+   */
+  watch(onChange: () => void, intervalMs = 1000): () => void {
+    const listener = (curr: fs.Stats, prev: fs.Stats) => {
+      if (curr.mtimeMs !== prev.mtimeMs || curr.ino !== prev.ino) onChange();
+    };
+    fs.watchFile(this.storePath, { interval: intervalMs, persistent: false }, listener);
+    return () => fs.unwatchFile(this.storePath, listener);
+  }
+
   /**
    * Get storage file path
    */
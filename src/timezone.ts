@@ -0,0 +1,62 @@
+/**
+ * Timezone helpers for per-job IANA zones. Everything goes through `Intl`, so
+ * no zone database ships with the extension.
+ */
+
+/** True if `timeZone` is an IANA zone id the runtime knows (e.g. "Europe/Berlin"). */
+export function isValidTimezone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock fields of instant `at` as seen in `timeZone`. */
+export function zonedWallClock(at: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(at));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Offset of `timeZone` from UTC at instant `at`, in ms (positive east of UTC). */
+function zoneOffsetMs(at: number, timeZone: string): number {
+  const wall = zonedWallClock(at, timeZone);
+  const asUTC = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUTC - Math.floor(at / 1000) * 1000;
+}
+
+const ZONELESS_ISO = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+
+/** Parse a timestamp. A zone-less ISO string (no `Z` / `+hh:mm`) is read as
+ *  wall-clock time in `timeZone` when one is given; everything else goes
+ *  through `new Date()` unchanged. */
+export function parseTimestamp(input: string, timeZone?: string): Date {
+  const match = timeZone ? input.trim().match(ZONELESS_ISO) : null;
+  if (!match || !timeZone) return new Date(input);
+  const [, y, mo, d, h, mi, sec, ms] = match;
+  const wall = Date.UTC(+y, +mo - 1, +d, +h, +mi, +(sec ?? 0), +(ms ?? "0").padEnd(3, "0"));
+  // Second pass settles DST transitions: the offset at the first guess can
+  // differ from the offset at the true instant.
+  const guess = wall - zoneOffsetMs(wall, timeZone);
+  return new Date(wall - zoneOffsetMs(guess, timeZone));
+}
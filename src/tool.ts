@@ -1,12 +1,159 @@
 import type { ToolDefinition } from "@earendil-works/pi-coding-agent";
 import { Text } from "@earendil-works/pi-tui";
 import { nanoid } from "nanoid";
-import { CronScheduler } from "./scheduler.js";
+import { DEFAULT_WATCH_DEBOUNCE_MS } from "./file-watch.js";
+import { GIT_HEAD } from "./git-watch.js";
+import { describeQuietHours, validateQuietHours } from "./quiet-hours.js";
+import {
+  CronScheduler,
+  DEFAULT_MISFIRE_LIMIT,
+  DEFAULT_PAUSE_MS,
+  DEFAULT_RETRY_BACKOFF,
+  describeLateness,
+  formatElapsed,
+  formatISOShort,
+} from "./scheduler.js";
 import type { JobScope } from "./settings.js";
 import type { CronStorage } from "./storage.js";
-import type { CronJob, CronJobType, CronToolDetails, } from "./types.js";
+import { isValidTimezone } from "./timezone.js";
+import type {
+  ChainCondition,
+  CronJob,
+  CronJobType,
+  CronToolDetails,
+  DeliveryMode,
+  LifecycleTrigger,
+  MisfirePolicy,
+  OverlapPolicy,
+  RetryPolicy,
+} from "./types.js";
 import { CronToolParams } from "./types.js";
 
+/** Resolve a `startAt`/`endAt` param to ISO. An empty string clears the bound. */
+function resolveBound(input: string, timezone: string | undefined): string | undefined {
+  if (!input) return undefined;
+  const resolved = CronScheduler.resolveTimeBound(input, timezone);
+  if (!resolved.ok) throw new Error(resolved.error);
+  return resolved.at;
+}
+
+/** Reject a `startAt`/`endAt` window the job could never fire in. */
+function checkRunWindow(startAt: string | undefined, endAt: string | undefined): void {
+  if (!endAt) return;
+  if (new Date(endAt).getTime() <= Date.now()) {
+    throw new Error(`endAt is in the past: ${endAt}. Current time: ${new Date().toISOString()}`);
+  }
+  if (startAt && new Date(startAt).getTime() >= new Date(endAt).getTime()) {
+    throw new Error(`endAt (${endAt}) must be after startAt (${startAt})`);
+  }
+}
+
+/** Resolve the `quietHours` param: `false` opts out, `true` inherits the global setting. */
+function resolveQuietHours(input: unknown): CronJob["quietHours"] {
+  if (input === false) return false;
+  if (input === true) return undefined;
+  const validated = validateQuietHours(input);
+  if (!validated.ok) throw new Error(validated.error);
+  return validated.quietHours;
+}
+
+/** Resolve the `retry` param: `attempts: 0` removes the policy. */
+function resolveRetry(input: { attempts: number; backoff?: string }): RetryPolicy | undefined {
+  if (input.backoff !== undefined && !CronScheduler.parseInterval(input.backoff)) {
+    throw new Error(`Invalid retry backoff: ${input.backoff}. Use a duration like '30s', '5m'`);
+  }
+  if (input.attempts <= 0) return undefined;
+  return input.backoff ? { attempts: input.attempts, backoff: input.backoff } : { attempts: input.attempts };
+}
+
+/**
+ * Check that chaining `jobId` after `upstreamId` is possible: the upstream
+ * exists and following `after` links up from it never leads back to `jobId`.
+ * Throws with the offending chain otherwise.
+ */
+function checkChain(storage: CronStorage, jobId: string, upstreamId: string): void {
+  if (!storage.getJob(upstreamId)) {
+    throw new Error(`Upstream job not found: ${upstreamId}`);
+  }
+  const path = [jobId];
+  let cursor: string | undefined = upstreamId;
+  while (cursor) {
+    path.push(cursor);
+    if (cursor === jobId) {
+      throw new Error(`Chaining would create a cycle: ${path.join(" → ")}`);
+    }
+    const upstream = storage.getJob(cursor);
+    cursor = upstream?.type === "after" ? upstream.schedule : undefined;
+  }
+}
+
+/** Resolve the `watch` param: trimmed, non-empty glob patterns. */
+function resolveWatch(patterns: string[]): string[] {
+  const cleaned = patterns.map((p) => p.trim()).filter(Boolean);
+  if (cleaned.length === 0) {
+    throw new Error("'watch' needs at least one glob pattern, e.g. 'src/**/*.ts'");
+  }
+  return cleaned;
+}
+
+/** Resolve the `idle` param to its threshold in ms. */
+function resolveIdle(input: string): number {
+  const ms = CronScheduler.parseInterval(input);
+  if (!ms) throw new Error(`Invalid idle threshold: ${input}. Use a duration like '20m', '1h'`);
+  return ms;
+}
+
+/**
+ * Resolve an `until` param — a duration or a point in time — to a future
+ * Date. A duration counts from `from(ms)`; `label` names the value in errors.
+ */
+function resolveUntil(value: string, label: string, from: (ms: number) => Date): Date {
+  const ms = CronScheduler.parseInterval(value);
+  if (ms) return from(ms);
+  // A bare clock time ("14:30") reads as "at 14:30".
+  let resolved = CronScheduler.resolveTimeBound(value);
+  if (!resolved.ok && /^\d/.test(value)) resolved = CronScheduler.resolveTimeBound(`at ${value}`);
+  if (!resolved.ok) throw new Error(resolved.error.replace("Invalid time", `Invalid ${label}`));
+  const until = new Date(resolved.at);
+  if (until.getTime() <= Date.now()) {
+    throw new Error(`${label[0].toUpperCase()}${label.slice(1)} is in the past: ${resolved.at}. Current time: ${new Date().toISOString()}`);
+  }
+  return until;
+}
+
+/** Reject params that set more than one trigger: `schedule`, `after`, `watch`, `idle` or `lifecycle`. */
+function checkSingleTrigger(params: {
+  schedule?: string;
+  after?: string;
+  watch?: string[];
+  idle?: string;
+  git?: string;
+  lifecycle?: string;
+}): void {
+  const given = [
+    params.schedule && "'schedule'",
+    params.after && "'after'",
+    params.watch && "'watch'",
+    params.idle && "'idle'",
+    params.git && "'git'",
+    params.lifecycle && "'lifecycle'",
+  ].filter(Boolean);
+  if (given.length > 1) {
+    throw new Error(
+      `Pass only one of 'schedule', 'after' (chain to a job), 'watch' (file changes), 'idle' (agent idle), 'git' (branch moves) or 'lifecycle' (session events), got ${given.join(" and ")}`,
+    );
+  }
+}
+
+/** One-line summary of a job's run limits for `list`, or "" when it has none. */
+function describeRunLimits(job: CronJob): string {
+  const parts: string[] = [];
+  if (job.maxRuns) parts.push(`${job.runCount}/${job.maxRuns} runs`);
+  if (job.startAt) parts.push(`from ${job.startAt}`);
+  if (job.endAt) parts.push(`until ${job.endAt}`);
+  return parts.join(" | ");
+}
+
 /**
  * Create the schedule_prompt tool definition.
  * `getDefaultScope` is a getter so live setting toggles affect the next `add`.
@@ -20,15 +167,16 @@ export function createCronTool(
     name: "schedule_prompt",
     label: "Schedule Prompt",
     description:
-      "IMPORTANT: For action='add', you MUST provide both 'schedule' parameter AND 'prompt' parameter. Schedule prompts at times/intervals. Schedule formats: 6-field cron (with seconds: '0 * * * * *' = every minute), ISO timestamp, relative time (+10s, +5m, +1h), or interval (5m, 1h). Type defaults to 'cron', use 'once' for relative/ISO times. Actions: add (needs schedule+prompt), list, remove/enable/disable/update (need jobId), cleanup.",
+      "IMPORTANT: For action='add', you MUST provide both 'schedule' parameter AND 'prompt' parameter. Schedule prompts at times/intervals. Schedule formats: cron (6-field with seconds '0 * * * * *', standard 5-field '* * * * *', or @hourly/@daily/@weekly/@monthly/@yearly), ISO timestamp, relative time (+10s, +5m, +1h), or interval (5m, 1h). English phrases also work ('every weekday at 9am', 'tomorrow at 3pm', 'every 2 hours between 9 and 17', 'in 20 minutes') and pick the job type themselves. Optional 'timezone' (IANA id) pins cron fields and zone-less ISO timestamps to that zone. Type defaults to 'cron', use 'once' for relative/ISO times. Optional 'maxRuns', 'startAt' and 'endAt' bound a recurring job ('every 10 minutes, 6 times', 'hourly until friday at 5pm'); the job disables itself once they're used up. Pass 'after' (a job id) instead of 'schedule' to chain a job to another one's completion ('chainOn': onSuccess/onFailure/always, 'passOutput' appends the upstream output to the prompt). Pass 'watch' (glob patterns like 'src/**/*.ts') instead of 'schedule' to fire when matching files change; the changed paths are appended to the prompt and 'debounceMs' (default 2000) folds a burst of saves into one fire. Pass 'idle' (a duration like '20m') instead of 'schedule' to fire once the agent has been idle that long; it fires again only after new user activity. Pass 'git' (a branch name, or 'HEAD' for the checked-out branch) instead of 'schedule' to fire when that branch gets new commits; the prompt may use {{branch}}, {{oldSha}} and {{newSha}}. Pass 'lifecycle' (onSessionStart/onResume/onShutdown) instead of 'schedule' to run the prompt on a session event. Subagent jobs take a 'timeoutMs', a 'retry' policy ({attempts, backoff}) for failed runs and an 'overlap' policy (allow/skip/queue/replace) for fires that arrive while the previous run is still going. Inline jobs take a 'delivery' mode for when the agent is busy: followUp (default), steer, waitForIdle or dropIfBusy. An optional 'when' shell command is run before each fire; a non-zero exit skips the fire. Fires during quiet hours (global setting, or per-job 'quietHours'; false opts out) are deferred to the window's end or dropped. Actions: add (needs schedule+prompt), list, remove/enable/disable/update (need jobId), cleanup, pause (every job, for 'until': a duration or time, default 1h; enabled flags are kept) and resume; snooze (one job, until 'until': a time, or a duration pushing its next run back) and skip (one job's next 'count' fires, default 1); run (fire one job now without shifting its schedule, counted in its stats; 'runAs' inline/subagent switches its mode for debugging).",
     parameters: CronToolParams,
 
     async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
       const storage = getStorage();
       const scheduler = getScheduler();
       
-      // Prevent recursive scheduling from within scheduled prompts
-      if (params.action === "add") {
+      // Prevent recursive scheduling from within scheduled prompts — a
+      // prompt that runs a job (itself, say) now would loop the same way.
+      if (params.action === "add" || params.action === "run") {
         const entries = ctx.sessionManager.getEntries();
         const recentEntries = entries.slice(-10); // Check last 10 entries
         const hasScheduledPrompt = recentEntries.some(
@@ -37,7 +185,7 @@ export function createCronTool(
         
         if (hasScheduledPrompt) {
           throw new Error(
-            "Cannot create scheduled prompts from within a scheduled prompt execution. This prevents infinite loops."
+            `Cannot ${params.action === "run" ? "run" : "create"} scheduled prompts from within a scheduled prompt execution. This prevents infinite loops.`
           );
         }
       }
@@ -51,9 +199,16 @@ export function createCronTool(
       try {
         switch (action) {
           case "add": {
-            if (!params.schedule || !params.prompt) {
+            const hasTrigger =
+              params.schedule ||
+              params.after ||
+              params.watch ||
+              params.idle ||
+              params.git ||
+              params.lifecycle;
+            if (!hasTrigger || !params.prompt) {
               const missing = [];
-              if (!params.schedule) missing.push("'schedule'");
+              if (!hasTrigger) missing.push("'schedule' (or 'after' / 'watch' / 'idle' / 'git' / 'lifecycle')");
               if (!params.prompt) missing.push("'prompt'");
               throw new Error(
                 `Missing required parameters for add action: ${missing.join(" and ")}. You must provide both schedule (e.g., '+10s', '*/5 * * * * *') and prompt (the text to execute).`
@@ -78,17 +233,64 @@ export function createCronTool(
               );
             }
 
-            const type = (params.type || "cron") as CronJobType;
-            const validated = CronScheduler.validateSchedule(type, params.schedule);
-            if (!validated.ok) throw new Error(validated.error);
-            const schedule = validated.schedule;
-            const intervalMs = validated.intervalMs;
+            checkSingleTrigger(params);
+            const timezone = params.timezone || undefined;
+            const id = nanoid(10);
+            let type: CronJobType;
+            let schedule: string;
+            let intervalMs: number | undefined;
+            let watch: string[] | undefined;
+            if (params.after) {
+              // Chained job: fires when the upstream finishes, not on a clock.
+              checkChain(storage, id, params.after);
+              type = "after";
+              schedule = params.after;
+            } else if (params.watch) {
+              // Watch job: fires when matching files change, not on a clock.
+              watch = resolveWatch(params.watch);
+              type = "watch";
+              schedule = watch.join(", ");
+            } else if (params.idle) {
+              // Idle job: fires once the agent has been idle this long.
+              intervalMs = resolveIdle(params.idle);
+              type = "idle";
+              schedule = params.idle;
+            } else if (params.git) {
+              // Git job: fires when the branch tip moves.
+              type = "git";
+              schedule = params.git.trim() || GIT_HEAD;
+            } else if (params.lifecycle) {
+              // Lifecycle job: fires on a session event.
+              type = params.lifecycle as LifecycleTrigger;
+              schedule = params.lifecycle;
+            } else {
+              const validated = CronScheduler.validateSchedule(
+                (params.type || "cron") as CronJobType,
+                params.schedule as string,
+                timezone,
+              );
+              if (!validated.ok) throw new Error(validated.error);
+              // A natural-language schedule ("every weekday at 9am") picks its own type.
+              type = validated.type;
+              schedule = validated.schedule;
+              intervalMs = validated.intervalMs;
+            }
+
+            const startAt = resolveBound(params.startAt ?? "", timezone);
+            const endAt = resolveBound(params.endAt ?? "", timezone);
+            checkRunWindow(startAt, endAt);
+            const quietHours =
+              params.quietHours !== undefined ? resolveQuietHours(params.quietHours) : undefined;
 
             const now = new Date().toISOString();
+            // An `onSessionStart` job bound to this session could never fire:
+            // fresh sessions get a new id. It always loads for the whole cwd.
             const session =
-              getDefaultScope() === "session" ? ctx.sessionManager.getSessionId() : undefined;
+              getDefaultScope() === "session" && type !== "onSessionStart"
+                ? ctx.sessionManager.getSessionId()
+                : undefined;
             const job: CronJob = {
-              id: nanoid(10),
+              id,
               name: jobName,
               schedule,
               prompt: params.prompt,
@@ -103,6 +305,22 @@ export function createCronTool(
               extensions: params.extensions,
               skills: params.skills,
               session,
+              timezone,
+              misfirePolicy: params.misfirePolicy as MisfirePolicy | undefined,
+              misfireLimit: params.misfireLimit,
+              maxRuns: params.maxRuns || undefined,
+              startAt,
+              endAt,
+              quietHours,
+              overlap: params.overlap as OverlapPolicy | undefined,
+              retry: params.retry ? resolveRetry(params.retry) : undefined,
+              timeoutMs: params.timeoutMs,
+              chainOn: params.chainOn as ChainCondition | undefined,
+              passOutput: params.passOutput,
+              watch,
+              debounceMs: params.debounceMs,
+              when: params.when || undefined,
+              delivery: params.delivery as DeliveryMode | undefined,
             };
 
             storage.addJob(job);
@@ -118,7 +336,7 @@ export function createCronTool(
               content: [
                 {
                   type: "text",
-                  text: `✓ Created cron job "${job.name}" (${job.id})\nType: ${job.type}\nSchedule: ${job.schedule}\nPrompt: ${job.prompt}${modelLine}`,
+                  text: `✓ Created cron job "${job.name}" (${job.id})\nType: ${job.type}\nSchedule: ${job.schedule}${job.timezone ? ` (${job.timezone})` : ""}\nPrompt: ${job.prompt}${modelLine}`,
                 },
               ],
               details,
@@ -224,6 +442,108 @@ export function createCronTool(
             };
           }
 
+          case "pause": {
+            const value = params.until?.trim();
+            const until = value
+              ? resolveUntil(value, "pause end", (ms) => new Date(Date.now() + ms))
+              : new Date(Date.now() + DEFAULT_PAUSE_MS);
+            scheduler.pause(until);
+            details.jobs = [];
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `✓ All jobs paused until ${formatISOShort(until)} (${until.toISOString()}). Fires until then are skipped; one-shot jobs fire when the pause ends. Use action 'resume' to end it early.`,
+                },
+              ],
+              details,
+            };
+          }
+
+          case "resume": {
+            const wasPaused = scheduler.getPausedUntil();
+            scheduler.resume();
+            details.jobs = [];
+            return {
+              content: [
+                { type: "text", text: wasPaused ? "✓ Resumed: jobs fire again" : "Jobs were not paused" },
+              ],
+              details,
+            };
+          }
+
+          case "run": {
+            if (!params.jobId) {
+              throw new Error("jobId is required for run action");
+            }
+
+            const job = storage.getJob(params.jobId);
+            if (!job) {
+              throw new Error(`Job not found: ${params.jobId}`);
+            }
+
+            scheduler.runNow(job.id, params.runAs as "inline" | "subagent" | undefined, params.model);
+            const model = params.runAs === "inline" ? undefined : (params.model ?? job.model);
+            details.jobs = [job];
+            details.jobId = job.id;
+            details.jobName = job.name;
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `✓ Running "${job.name}" (${job.id}) now${model ? ` in a subagent (${model})` : " inline"}. Its schedule is unchanged.`,
+                },
+              ],
+              details,
+            };
+          }
+
+          case "snooze":
+          case "skip": {
+            if (!params.jobId) {
+              throw new Error(`jobId is required for ${action} action`);
+            }
+
+            const job = storage.getJob(params.jobId);
+            if (!job) {
+              throw new Error(`Job not found: ${params.jobId}`);
+            }
+            if (!job.enabled) {
+              throw new Error(`Job is disabled: ${job.name} (${job.id}). Enable it first`);
+            }
+
+            details.jobId = params.jobId;
+            details.jobName = job.name;
+
+            let text: string;
+            if (action === "skip") {
+              const count = params.count ?? 1;
+              scheduler.skip(job.id, count);
+              text = count
+                ? `✓ Skipping the next ${count === 1 ? "fire" : `${count} fires`} of "${job.name}" (${job.id})`
+                : `✓ Cancelled pending skips of "${job.name}" (${job.id})`;
+            } else {
+              if (params.until === undefined) {
+                throw new Error("until is required for snooze: a time ('14:30') or a duration ('15m'); '' ends the snooze");
+              }
+              const value = params.until.trim();
+              const until = value
+                ? resolveUntil(value, "snooze end", (ms) => scheduler.snoozeEnd(job.id, ms))
+                : undefined;
+              scheduler.snooze(job.id, until);
+              text = until
+                ? `✓ Snoozed "${job.name}" (${job.id}) until ${formatISOShort(until, job.timezone)} (${until.toISOString()})`
+                : `✓ Ended the snooze of "${job.name}" (${job.id})`;
+            }
+
+            const updated = storage.getJob(job.id) ?? job;
+            details.jobs = [updated];
+            const next = scheduler.getNextRun(job.id);
+            if (next) text += `. Next run: ${next.toISOString()}`;
+            return { content: [{ type: "text", text }], details };
+          }
+
           case "update": {
             if (!params.jobId) {
               throw new Error("jobId is required for update action");
@@ -251,14 +571,101 @@ export function createCronTool(
             if (params.notify !== undefined) updates.notify = params.notify;
             if (params.extensions !== undefined) updates.extensions = params.extensions;
             if (params.skills !== undefined) updates.skills = params.skills;
+            if (params.misfirePolicy !== undefined) updates.misfirePolicy = params.misfirePolicy as MisfirePolicy;
+            if (params.misfireLimit !== undefined) updates.misfireLimit = params.misfireLimit;
+            // 0 removes the limit.
+            if (params.maxRuns !== undefined) updates.maxRuns = params.maxRuns || undefined;
+            if (params.overlap !== undefined) updates.overlap = params.overlap as OverlapPolicy;
+            if (params.retry !== undefined) updates.retry = resolveRetry(params.retry);
+            if (params.timeoutMs !== undefined) updates.timeoutMs = params.timeoutMs;
+            if (params.chainOn !== undefined) updates.chainOn = params.chainOn as ChainCondition;
+            if (params.passOutput !== undefined) updates.passOutput = params.passOutput;
+            if (params.debounceMs !== undefined) updates.debounceMs = params.debounceMs;
+            if (params.delivery !== undefined) updates.delivery = params.delivery as DeliveryMode;
+            // Empty string removes the precondition.
+            if (params.when !== undefined) {
+              updates.when = params.when || undefined;
+              updates.lastSkipReason = undefined;
+            }
+            if (params.quietHours !== undefined) updates.quietHours = resolveQuietHours(params.quietHours);
+
+            // Empty string clears the zone back to the host's local time.
+            const timezone =
+              params.timezone !== undefined ? params.timezone || undefined : job.timezone;
+            if (params.timezone !== undefined) {
+              if (timezone !== undefined && !isValidTimezone(timezone)) {
+                throw new Error(
+                  `Unknown timezone: ${timezone}. Use an IANA zone id like 'Europe/Berlin' or 'America/New_York'`
+                );
+              }
+              updates.timezone = timezone;
+            }
 
+            checkSingleTrigger(params);
+            if (params.after) {
+              checkChain(storage, job.id, params.after);
+              updates.type = "after";
+              updates.schedule = params.after;
+              updates.intervalMs = undefined;
+              updates.watch = undefined;
+            }
+            if (params.watch) {
+              updates.watch = resolveWatch(params.watch);
+              updates.type = "watch";
+              updates.schedule = updates.watch.join(", ");
+              updates.intervalMs = undefined;
+            }
+            if (params.idle) {
+              updates.intervalMs = resolveIdle(params.idle);
+              updates.type = "idle";
+              updates.schedule = params.idle;
+              updates.watch = undefined;
+            }
+            if (params.git) {
+              updates.type = "git";
+              updates.schedule = params.git.trim() || GIT_HEAD;
+              updates.intervalMs = undefined;
+              updates.watch = undefined;
+            }
+            if (params.lifecycle) {
+              updates.type = params.lifecycle as LifecycleTrigger;
+              updates.schedule = params.lifecycle;
+              updates.intervalMs = undefined;
+              updates.watch = undefined;
+              // Same reason as in `add`: a fresh session never has this id.
+              if (params.lifecycle === "onSessionStart") updates.session = undefined;
+            }
             if (params.schedule) {
               // Same resolution rules as `add`: relative time (`+5m`) → ISO,
-              // ISO accepted as-is, cron validated by croner.
-              const validated = CronScheduler.validateSchedule(job.type, params.schedule);
+              // ISO accepted as-is, cron validated by croner, English phrases
+              // parsed — which may move the job to a different type. A
+              // event-triggered job given a schedule becomes a timed (cron) job.
+              const validated = CronScheduler.validateSchedule(
+                CronScheduler.isTimed(job.type) ? job.type : "cron",
+                params.schedule,
+                timezone,
+              );
               if (!validated.ok) throw new Error(validated.error);
               updates.schedule = validated.schedule;
-              if (validated.intervalMs !== undefined) updates.intervalMs = validated.intervalMs;
+              updates.watch = undefined;
+              // A new interval counts from now, not from the old cadence.
+              updates.anchorAt = undefined;
+              if (validated.type !== job.type) {
+                updates.type = validated.type;
+                updates.intervalMs = validated.intervalMs;
+              } else if (validated.intervalMs !== undefined) {
+                updates.intervalMs = validated.intervalMs;
+              }
+            }
+
+            if (params.startAt !== undefined || params.endAt !== undefined) {
+              const startAt =
+                params.startAt !== undefined ? resolveBound(params.startAt, timezone) : job.startAt;
+              const endAt =
+                params.endAt !== undefined ? resolveBound(params.endAt, timezone) : job.endAt;
+              checkRunWindow(startAt, endAt);
+              if (params.startAt !== undefined) updates.startAt = startAt;
+              if (params.endAt !== undefined) updates.endAt = endAt;
             }
 
             storage.updateJob(params.jobId, updates);
@@ -295,6 +702,10 @@ export function createCronTool(
             }
 
             const lines = ["Configured cron jobs:", ""];
+            const pausedUntil = scheduler.getPausedUntil();
+            if (pausedUntil) {
+              lines.unshift(`⏸ All jobs paused until ${pausedUntil.toISOString()}`, "");
+            }
             for (const job of jobs) {
               const status = job.enabled ? "✓" : "✗";
               const nextRun = scheduler.getNextRun(job.id);
@@ -302,13 +713,46 @@ export function createCronTool(
               const lastStr = job.lastRun ? `Last: ${job.lastRun}` : "Never run";
 
               lines.push(`${status} ${job.name} (${job.id})`);
-              lines.push(`  Type: ${job.type} | Schedule: ${job.schedule}`);
+              lines.push(`  Type: ${job.type} | Schedule: ${job.schedule}${job.timezone ? ` | Timezone: ${job.timezone}` : ""}`);
+              if (job.type === "after") {
+                const upstream = storage.getJob(job.schedule);
+                lines.push(`  Chained after: ${upstream ? `${upstream.name} (${job.schedule})` : `${job.schedule} (missing)`} ${job.chainOn ?? "onSuccess"}${job.passOutput ? ", passes output" : ""}`);
+              }
+              if (!job.model && job.delivery && job.delivery !== "followUp") {
+                lines.push(`  Delivery: ${job.delivery}`);
+              }
+              if (job.snoozedUntil && new Date(job.snoozedUntil).getTime() > Date.now()) {
+                lines.push(`  Snoozed until: ${job.snoozedUntil}`);
+              }
+              if (job.skipCount) lines.push(`  Skipping: next ${job.skipCount} fire(s)`);
+              if (job.when) {
+                lines.push(`  When: ${job.when}${job.lastStatus === "skipped" && job.lastSkipReason ? ` (last fire skipped: ${job.lastSkipReason})` : ""}`);
+              }
+              if (job.type === "watch") {
+                lines.push(`  Watching: ${(job.watch ?? []).join(", ")} (debounce ${formatElapsed(job.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS)})`);
+              }
               if (job.model) {
                 lines.push(`  Model: ${job.model} (runs in subagent${job.notify ? ", notifies parent" : ""}${job.extensions ? ", extensions" : ""}${job.skills ? ", skills" : ""})`);
+                if (job.timeoutMs) lines.push(`  Timeout: ${formatElapsed(job.timeoutMs)}`);
+                if (job.retry) {
+                  lines.push(`  Retry: up to ${job.retry.attempts}x, backoff ${job.retry.backoff ?? DEFAULT_RETRY_BACKOFF} doubling`);
+                }
+                if (job.overlap && job.overlap !== "allow") {
+                  lines.push(`  Overlap: ${job.overlap}${job.skippedRuns ? ` (${job.skippedRuns} skipped)` : ""}`);
+                }
+              }
+              if (job.misfirePolicy && job.misfirePolicy !== "skip") {
+                lines.push(`  Missed runs: ${job.misfirePolicy}${job.misfirePolicy === "runAll" ? ` (max ${job.misfireLimit ?? DEFAULT_MISFIRE_LIMIT})` : ""}`);
+              }
+              const limits = describeRunLimits(job);
+              if (limits) lines.push(`  Limits: ${limits}`);
+              if (job.quietHours !== undefined) {
+                lines.push(`  Quiet hours: ${job.quietHours === false ? "ignored" : describeQuietHours(job.quietHours)}`);
               }
               lines.push(`  Prompt: ${job.prompt}`);
               lines.push(`  ${lastStr} ${nextStr ? `| ${nextStr}` : ""}`);
-              lines.push(`  Runs: ${job.runCount} | Status: ${job.lastStatus || "pending"}`);
+              const late = job.lateByMs !== undefined ? ` (${describeLateness(job.lateByMs)})` : "";
+              lines.push(`  Runs: ${job.runCount} | Status: ${job.lastStatus || "pending"}${late}`);
               if (job.description) {
                 lines.push(`  Description: ${job.description}`);
               }
@@ -362,6 +806,21 @@ export function createCronTool(
         case "list":
           text = `Listing all cron jobs`;
           break;
+        case "pause":
+          text = `Pausing all cron jobs${params.until ? ` until ${params.until}` : ""}`;
+          break;
+        case "resume":
+          text = `Resuming all cron jobs`;
+          break;
+        case "run":
+          text = `Running cron job now: ${nameText}`;
+          break;
+        case "snooze":
+          text = `Snoozing cron job: ${nameText}${params.until ? ` until ${params.until}` : ""}`;
+          break;
+        case "skip":
+          text = `Skipping ${params.count ?? 1} fire(s) of cron job: ${nameText}`;
+          break;
         default:
           text = `${actionText} cron job`;
       }
@@ -394,7 +853,8 @@ export function createCronTool(
           const status = job.enabled ? theme.fg("success", "✓") : theme.fg("muted", "✗");
           lines.push(`${status} ${theme.fg("text", job.name)} ${theme.fg("dim", `(${job.id})`)}`);
           lines.push(
-            `  ${theme.fg("dim", "Type:")} ${job.type} ${theme.fg("dim", "| Schedule:")} ${job.schedule}`
+            `  ${theme.fg("dim", "Type:")} ${job.type} ${theme.fg("dim", "| Schedule:")} ${job.schedule}` +
+              (job.timezone ? ` ${theme.fg("dim", "| Timezone:")} ${job.timezone}` : "")
           );
           if (job.model) {
             const subagentTag = job.notify ? "(subagent, notifies parent)" : "(subagent)";
@@ -1,14 +1,93 @@
 import { type Static, StringEnum, Type } from "@earendil-works/pi-ai";
 
+/**
+ * Session lifecycle events a job can fire on
+ */
+export type LifecycleTrigger = "onSessionStart" | "onResume" | "onShutdown";
+
 /**
  * Type of cron job
  */
-export type CronJobType = "cron" | "once" | "interval";
+export type CronJobType =
+  | "cron"
+  | "once"
+  | "interval"
+  | "after"
+  | "watch"
+  | "idle"
+  | "git"
+  | LifecycleTrigger;
 
 /**
  * Status of the last job execution
  */
-export type CronJobStatus = "success" | "error" | "running";
+export type CronJobStatus =
+  | "success"
+  | "error"
+  | "running"
+  | "deferred"
+  | "dropped"
+  | "timeout"
+  | "skipped";
+
+/**
+ * What `CronScheduler.start()` does with runs missed while no pi was open
+ */
+export type MisfirePolicy = "skip" | "runOnce" | "runAll";
+
+/**
+ * What a subagent job does when it fires while its previous run is still in flight
+ */
+export type OverlapPolicy = "allow" | "skip" | "queue" | "replace";
+
+/**
+ * How an inline job's prompt is delivered while the agent is busy
+ */
+export type DeliveryMode = "followUp" | "steer" | "waitForIdle" | "dropIfBusy";
+
+/**
+ * Which upstream outcomes fire a chained (`after`) job
+ */
+export type ChainCondition = "onSuccess" | "onFailure" | "always";
+
+/**
+ * Retry policy for failed subagent runs
+ */
+export interface RetryPolicy {
+  /** Retries after the first failed run. 0 disables retrying. */
+  attempts: number;
+  /** Delay before the first retry as a duration ("30s", "5m"), doubling on every further retry. Default "30s". */
+  backoff?: string;
+}
+
+/**
+ * What happens to a fire that lands inside quiet hours
+ */
+export type QuietHoursAction = "defer" | "drop";
+
+/**
+ * A recurring quiet window in wall-clock time. `start > end` wraps past
+ * midnight; `start === end` covers the whole day.
+ */
+export interface QuietHoursWindow {
+  /** "HH:MM" (24h) the window opens */
+  start: string;
+  /** "HH:MM" (24h) the window closes */
+  end: string;
+  /** Days the window opens on, 0 = Sunday … 6 = Saturday. Default: every day. */
+  days?: number[];
+}
+
+/**
+ * Quiet hours / blackout windows, global (`ScheduleSettings`) or per job
+ */
+export interface QuietHours {
+  windows: QuietHoursWindow[];
+  /** Default "defer": fire once when the window ends. "drop" discards the fire. */
+  action?: QuietHoursAction;
+  /** IANA zone the windows are read in. Default: the host's local zone. */
+  timezone?: string;
+}
 
 /**
  * A scheduled cron job
@@ -18,7 +97,7 @@ export interface CronJob {
   id: string;
   /** Human-readable name */
   name: string;
-  /** Cron expression, ISO timestamp, or interval description */
+  /** Cron expression, ISO timestamp, interval description, the upstream job id (`after` jobs), the watched patterns joined for display (`watch` jobs), the idle threshold (`idle` jobs), the watched branch or "HEAD" (`git` jobs), or the trigger name (lifecycle jobs) */
   schedule: string;
   /** The prompt to execute */
   prompt: string;
@@ -26,12 +105,16 @@ export interface CronJob {
   enabled: boolean;
   /** Type of job */
   type: CronJobType;
-  /** Interval in milliseconds (for interval type) */
+  /** Interval in milliseconds (interval type), or the idle threshold (idle type) */
   intervalMs?: number;
+  /** Interval jobs: the time the cadence counts from — ticks fall at `anchorAt + k·intervalMs`, across restarts and processes. Set when the job is first armed. (A `once` job's schedule is its own anchor.) */
+  anchorAt?: string;
   /** When the job was created */
   createdAt: string;
   /** Last execution timestamp */
   lastRun?: string;
+  /** Timed jobs: scheduled time of the last fire handled, whatever came of it — ran, skipped, dropped or held back. Missed runs are counted from here. */
+  lastTick?: string;
   /** Status of last execution */
   lastStatus?: CronJobStatus;
   /** Next scheduled run (computed) */
@@ -50,6 +133,52 @@ export interface CronJob {
   skills?: boolean | string[];
   /** Session id this job is bound to. When absent, every pi in the cwd loads it. */
   session?: string;
+  /** IANA timezone (e.g. "Europe/Berlin") for cron fields and zone-less ISO timestamps. Default: the host's local zone. */
+  timezone?: string;
+  /** Catch-up behaviour for runs missed while no pi session was open, evaluated on start against `lastTick`. Default "skip". */
+  misfirePolicy?: MisfirePolicy;
+  /** `runAll` only. Maximum number of missed runs replayed on start. Default 10. */
+  misfireLimit?: number;
+  /** Disable the job once `runCount` reaches this many successful runs. Default unlimited. */
+  maxRuns?: number;
+  /** ISO timestamp before which the job doesn't fire. */
+  startAt?: string;
+  /** ISO timestamp after which the job no longer fires; the first tick past it disables the job. */
+  endAt?: string;
+  /** Per-job quiet hours replacing the global `ScheduleSettings.quietHours`; `false` ignores quiet hours. Default: inherit the global setting. */
+  quietHours?: QuietHours | false;
+  /** Set while a fire held back by quiet hours waits for the window to end (`lastStatus: "deferred"`). */
+  deferredUntil?: string;
+  /** Subagent jobs only. What a fire does while the previous run is still in flight. Default "allow" (run concurrently). */
+  overlap?: OverlapPolicy;
+  /** Fires dropped by the `overlap` policy because a previous run was still in flight. */
+  skippedRuns?: number;
+  /** Subagent jobs only. Re-run a failed subagent run with exponential backoff. Default: no retries. */
+  retry?: RetryPolicy;
+  /** Set while a failed run is being retried: the retry in progress (1-based). */
+  retryAttempt?: number;
+  /** `after` jobs only. Which upstream outcomes fire this job. Default "onSuccess". */
+  chainOn?: ChainCondition;
+  /** `after` jobs only. Append the upstream's output (or error) to this job's prompt. */
+  passOutput?: boolean;
+  /** `watch` jobs only. Glob patterns, relative to the cwd, whose changes fire the job. */
+  watch?: string[];
+  /** `watch` jobs only. Quiet period in ms after the last change before the job fires. Default 2000. */
+  debounceMs?: number;
+  /** Inline jobs only. How the prompt is delivered while the agent is busy. Default "followUp". */
+  delivery?: DeliveryMode;
+  /** Shell command run in the cwd before each fire; a non-zero exit skips the fire (`lastStatus: "skipped"`). */
+  when?: string;
+  /** Why the last fire was skipped: the `when` command's stderr, exit code or timeout, a pause, a requested skip, or runs missed during sleep. */
+  lastSkipReason?: string;
+  /** Upcoming fires to skip (`skip` action); counts down with each skipped fire. */
+  skipCount?: number;
+  /** ISO timestamp (`snooze` action): fires due before it are held and fire once at this time. */
+  snoozedUntil?: string;
+  /** How late the last run went out, in ms, when the machine slept through its time and `misfirePolicy` caught it up. Cleared by the next run. */
+  lateByMs?: number;
+  /** Subagent jobs only. Abort the run (retries included) after this many ms and record `lastStatus: "timeout"`. 0 disables the `ScheduleSettings.defaultTimeoutMs` default. */
+  timeoutMs?: number;
 }
 
 /**
@@ -58,6 +187,8 @@ export interface CronJob {
 export interface CronStore {
   jobs: CronJob[];
   version: number;
+  /** ISO timestamp: no job fires before it (`pause` action). Absent or past = not paused. */
+  pausedUntil?: string;
 }
 
 /**
@@ -75,7 +206,7 @@ export interface CronToolDetails {
  * Tool parameter schema
  */
 export const CronToolParams = Type.Object({
-  action: StringEnum(["add", "remove", "list", "enable", "disable", "update", "cleanup"], {
+  action: StringEnum(["add", "remove", "list", "enable", "disable", "update", "cleanup", "pause", "resume", "snooze", "skip", "run"], {
     description: "Action to perform",
   }),
   name: Type.Optional(
@@ -86,7 +217,7 @@ export const CronToolParams = Type.Object({
   schedule: Type.Optional(
     Type.String({
       description:
-        "Required for add. Cron expression, ISO timestamp, relative time (+10s, +5m), or interval string",
+        "Required for add. Cron expression (6-field with seconds, standard 5-field, or @hourly/@daily/@weekly/@monthly/@yearly), ISO timestamp, relative time (+10s, +5m), interval string, or an English phrase like 'every weekday at 9am', 'tomorrow at 3pm', 'every 2 hours between 9 and 17', 'in 20 minutes'",
     })
   ),
   prompt: Type.Optional(
@@ -96,12 +227,90 @@ export const CronToolParams = Type.Object({
   ),
   jobId: Type.Optional(
     Type.String({
-      description: "Job ID for remove, enable, disable, or update actions",
+      description: "Job ID for remove, enable, disable, update, snooze, skip or run actions",
+    })
+  ),
+  until: Type.Optional(
+    Type.String({
+      description:
+        "For pause: how long to pause every job — a duration ('1h', '30m'), a time ('14:30', 'tomorrow at 9am', ISO) or relative time ('+2h'); default 1h. For snooze: a time, or a duration that pushes the job's next run back by that much ('15m'); an empty string ends the snooze.",
+    })
+  ),
+  runAs: Type.Optional(
+    StringEnum(["inline", "subagent"], {
+      description:
+        "For run, to debug a job: 'inline' sends a subagent job's prompt to this chat, 'subagent' runs an inline job in a subagent (on 'model', or the job's own). Default: the job's own mode.",
+    })
+  ),
+  count: Type.Optional(
+    Type.Integer({
+      minimum: 0,
+      description: "For skip: how many upcoming fires of the job to skip. Default 1; 0 cancels pending skips.",
+    })
+  ),
+  after: Type.Optional(
+    Type.String({
+      description:
+        "Job id to chain after: this job fires whenever that job finishes a run (instead of on a schedule). Makes the job an 'after' job; pass 'schedule' on update to turn it back into a timed job. Both jobs must be loaded in the same pi session.",
+    })
+  ),
+  chainOn: Type.Optional(
+    StringEnum(["onSuccess", "onFailure", "always"], {
+      description: "Chained jobs only. Which upstream outcomes fire this job. Default 'onSuccess'.",
+    })
+  ),
+  passOutput: Type.Optional(
+    Type.Boolean({
+      description:
+        "Chained jobs only. Append the upstream run's output (subagent jobs) or error to this job's prompt.",
+    })
+  ),
+  idle: Type.Optional(
+    Type.String({
+      description:
+        "Idle threshold as a duration ('20m', '1h'): the job fires once the agent has been idle that long (instead of on a schedule), and only again after new user activity. Makes the job an 'idle' job; pass 'schedule' on update to turn it back into a timed job.",
+    })
+  ),
+  delivery: Type.Optional(
+    StringEnum(["followUp", "steer", "waitForIdle", "dropIfBusy"], {
+      description:
+        "Inline jobs only. What a fire does while the agent is busy: 'followUp' (default) queues the prompt after the current run, 'steer' interrupts the current run with it, 'waitForIdle' holds it until the agent is idle (repeat fires coalesce), 'dropIfBusy' discards it.",
+    })
+  ),
+  when: Type.Optional(
+    Type.String({
+      description:
+        "Optional precondition: a shell command run in the working directory before each fire (e.g. '! npm test' to fire only while tests fail, 'test -n \"$(git status --porcelain)\"' for uncommitted changes). A non-zero exit skips the fire without waking the agent. Pass an empty string on update to remove it.",
+    })
+  ),
+  git: Type.Optional(
+    Type.String({
+      description:
+        "Fire when a branch of the local repository moves (commit, merge, pull, reset) instead of on a schedule: a branch name, or 'HEAD' for whichever branch is checked out. The prompt may use {{branch}}, {{oldSha}} and {{newSha}}. Makes the job a 'git' job; pass 'schedule' on update to turn it back into a timed job.",
+    })
+  ),
+  lifecycle: Type.Optional(
+    StringEnum(["onSessionStart", "onResume", "onShutdown"], {
+      description:
+        "Fire on a session event instead of on a schedule: 'onSessionStart' when pi opens a fresh session, 'onResume' when a session is resumed, 'onShutdown' when it closes. Makes the job a lifecycle job; pass 'schedule' on update to turn it back into a timed job.",
+    })
+  ),
+  watch: Type.Optional(
+    Type.Array(Type.String(), {
+      description:
+        "Glob patterns relative to the working directory ('src/**/*.ts', 'logs/*.log'): the job fires when matching files change (instead of on a schedule), with the changed paths appended to the prompt. Makes the job a 'watch' job; pass 'schedule' on update to turn it back into a timed job.",
+    })
+  ),
+  debounceMs: Type.Optional(
+    Type.Integer({
+      minimum: 0,
+      description: "Watch jobs only. Wait this many ms after the last change before firing, so a burst of saves fires once. Default 2000.",
     })
   ),
   type: Type.Optional(
     StringEnum(["cron", "once", "interval"], {
-      description: "Job type. Use 'once' for relative times like '+10s'. Default is cron",
+      description:
+        "Job type. Use 'once' for relative times like '+10s'. Default is cron. Ignored when the schedule is an English phrase — the phrase decides the type",
     })
   ),
   description: Type.Optional(
@@ -142,16 +351,126 @@ export const CronToolParams = Type.Object({
       }),
     ])
   ),
+  timezone: Type.Optional(
+    Type.String({
+      description:
+        "Optional IANA timezone (e.g. 'Europe/Berlin', 'America/New_York') the cron fields and zone-less ISO timestamps are read in. Defaults to the host's local zone. Pass an empty string on update to clear it.",
+    })
+  ),
+  misfirePolicy: Type.Optional(
+    StringEnum(["skip", "runOnce", "runAll"], {
+      description:
+        "What to do about runs missed while no pi session was open, checked on session start against the job's last run. 'skip' (default) drops them, 'runOnce' fires a single catch-up run, 'runAll' replays every missed run up to misfireLimit.",
+    })
+  ),
+  misfireLimit: Type.Optional(
+    Type.Integer({
+      minimum: 1,
+      description: "misfirePolicy='runAll' only. Maximum number of missed runs replayed on start. Default 10.",
+    })
+  ),
+  maxRuns: Type.Optional(
+    Type.Integer({
+      minimum: 0,
+      description:
+        "Optional. Disable the job after this many successful runs (e.g. 6 for 'every 10 minutes, 6 times'). Pass 0 on update to remove the limit.",
+    })
+  ),
+  startAt: Type.Optional(
+    Type.String({
+      description:
+        "Optional. Don't fire before this time. ISO timestamp, relative time (+1h, +2d) or a phrase like 'monday at 9am'; zone-less timestamps are read in the job's timezone. Pass an empty string on update to clear it.",
+    })
+  ),
+  overlap: Type.Optional(
+    StringEnum(["allow", "skip", "queue", "replace"], {
+      description:
+        "Subagent jobs only. What a fire does while the job's previous run is still in flight: 'allow' (default) runs concurrently, 'skip' drops the fire (counted in the job's skipped runs), 'queue' runs it once the previous run finishes (repeat fires coalesce into one), 'replace' aborts the previous run and starts over.",
+    })
+  ),
+  timeoutMs: Type.Optional(
+    Type.Integer({
+      minimum: 0,
+      description:
+        "Subagent jobs only. Abort the subagent run (retries included) after this many milliseconds and mark it as timed out. Defaults to the defaultTimeoutMs setting; 0 means no timeout for this job.",
+    })
+  ),
+  retry: Type.Optional(
+    Type.Object(
+      {
+        attempts: Type.Integer({
+          minimum: 0,
+          maximum: 10,
+          description: "Retries after the first failed run. 0 removes the retry policy on update",
+        }),
+        backoff: Type.Optional(
+          Type.String({
+            description: "Delay before the first retry ('30s', '5m'), doubled on every further retry. Default '30s'",
+          })
+        ),
+      },
+      {
+        description:
+          "Subagent jobs only. Re-run a failed subagent run (rate limit, transient provider error) with exponential backoff before reporting the error.",
+      }
+    )
+  ),
+  quietHours: Type.Optional(
+    Type.Union([
+      Type.Object(
+        {
+          windows: Type.Array(
+            Type.Object({
+              start: Type.String({ description: "Window start, 'HH:MM' (24h)" }),
+              end: Type.String({
+                description: "Window end, 'HH:MM' (24h). Earlier than start wraps past midnight; equal to start means all day",
+              }),
+              days: Type.Optional(
+                Type.Array(Type.Integer({ minimum: 0, maximum: 6 }), {
+                  description: "Days the window opens on, 0 = Sunday … 6 = Saturday. Default every day",
+                })
+              ),
+            })
+          ),
+          action: Type.Optional(
+            StringEnum(["defer", "drop"], {
+              description: "'defer' (default) fires once when the window ends, 'drop' discards the fire",
+            })
+          ),
+          timezone: Type.Optional(
+            Type.String({ description: "IANA zone the windows are read in. Default host local time" })
+          ),
+        },
+        { description: "Quiet hours for this job, replacing the global quiet-hours setting." }
+      ),
+      Type.Boolean({
+        description: "false: this job ignores quiet hours. true: drop the per-job override and follow the global setting again.",
+      }),
+    ])
+  ),
+  endAt: Type.Optional(
+    Type.String({
+      description:
+        "Optional. Stop firing after this time and disable the job (e.g. 'friday at 5pm' for 'hourly until Friday'). Same formats as startAt. Pass an empty string on update to clear it.",
+    })
+  ),
 });
 
 export type CronToolParamsType = Static<typeof CronToolParams>;
 
 /**
- * Event emitted when a job is added, removed, or updated
+ * Event emitted when a job is added, removed, or updated, or when the whole
+ * scheduler is paused or resumed
  */
 export interface CronChangeEvent {
-  type: "add" | "remove" | "update" | "fire" | "error";
+  type: "add" | "remove" | "update" | "fire" | "error" | "pause";
   job?: CronJob;
   jobId?: string;
   error?: string;
+  /** Set on the `fire` / `error` event that ends a run; chained `after` jobs key off it. */
+  outcome?: "success" | "failure";
+  /** Subagent runs only: the full output of a successful run. */
+  output?: string;
+  /** `pause` events only: when the pause ends; absent on resume. */
+  pausedUntil?: string;
 }
@@ -1,7 +1,8 @@
 /**
  * Interactive add flow for `/schedule-prompt`.
  * Steps the user through name → type → schedule (with re-prompt on validation
- * failure) → prompt → scope → confirm. Saves and schedules the new job, or
+ * failure; English phrases accepted and may override the type) → prompt →
+ * scope → confirm. Saves and schedules the new job, or
  * returns silently on cancellation.
  */
 
@@ -10,7 +11,7 @@ import { nanoid } from "nanoid";
 import { CronScheduler } from "../scheduler.js";
 import type { ScheduleSettings } from "../settings.js";
 import type { CronStorage } from "../storage.js";
-import type { CronJob } from "../types.js";
+import type { CronJob, CronJobType } from "../types.js";
 
 export async function runAddFlow(
   ctx: ExtensionCommandContext,
@@ -34,17 +35,17 @@ export async function runAddFlow(
   ]);
   if (!typeChoice) return;
 
-  const typeMap: Record<string, "cron" | "once" | "interval"> = {
+  const typeMap: Record<string, CronJobType> = {
     "Cron (recurring)": "cron",
     "Once (one-shot)": "once",
     "Interval (periodic)": "interval",
   };
-  const jobType = typeMap[typeChoice];
+  let jobType = typeMap[typeChoice];
 
   const placeholders: Record<string, string> = {
-    cron: "6-field cron, e.g. '0 0 9 * * *' for 9am daily",
-    once: "ISO timestamp or relative time (+10s, +5m, +1h)",
-    interval: "Duration, e.g. '5m', '1h', '30s'",
+    cron: "Cron ('0 9 * * *', '0 0 9 * * *', @daily) or a phrase like 'every weekday at 9am'",
+    once: "ISO timestamp, relative time (+10s, +5m) or a phrase like 'tomorrow at 3pm'",
+    interval: "Duration ('5m', '1h', '30s') or a phrase like 'every 10 minutes'",
   };
 
   // Re-prompt the schedule field on validation failure so the user
@@ -57,6 +58,8 @@ export async function runAddFlow(
     if (!raw) return;
     const result = CronScheduler.validateSchedule(jobType, raw.trim());
     if (result.ok) {
+      // English phrases ("every weekday at 9am") resolve to their own type.
+      jobType = result.type;
       schedule = result.schedule;
       intervalMs = result.intervalMs;
       break;
@@ -72,7 +75,7 @@ export async function runAddFlow(
   // configured default.
   const defaultIsSession = (settings.defaultJobScope ?? "session") === "session";
   const SCOPE_SESSION = "Bind to this session — only this pi fires it";
-  const SCOPE_SHARED = "Shared — every pi in this cwd fires it (accepts duplicate fires)";
+  const SCOPE_SHARED = "Shared — whichever pi in this cwd claims it first fires it";
   const scopeChoice = await ctx.ui.select(
     "Scope",
     defaultIsSession ? [SCOPE_SESSION, SCOPE_SHARED] : [SCOPE_SHARED, SCOPE_SESSION],
@@ -1,14 +1,15 @@
 /**
  * CronWidget — displays scheduled prompts below the editor
  *
- * Shows a table with status, name, schedule, next run, last run, and run count
+ * Shows a table with status, name, schedule, next run, last run, and run count,
+ * under a banner while the scheduler is paused
  * Auto-refreshes every 30 seconds to update relative times
  */
 
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
 import { DynamicBorder } from "@earendil-works/pi-coding-agent";
 import { Container, Spacer, Text } from "@earendil-works/pi-tui";
-import { CronScheduler, formatISOShort, humanizeCron } from "../scheduler.js";
+import { CronScheduler, formatISOShort, formatLateness, humanizeCron } from "../scheduler.js";
 import type { CronStorage } from "../storage.js";
 
 const WIDGET_ID = "schedule-prompts";
@@ -41,6 +42,14 @@ function formatRelativeTime(date: Date | string): string {
   return diff > 0 ? `in ${timeStr}` : `${timeStr} ago`;
 }
 
+/**
+ * Format the end of a pause: "14:30" today, "Oct 20 14:30" on a later day
+ */
+function formatPauseEnd(date: Date): string {
+  const short = formatISOShort(date);
+  return date.toDateString() === new Date().toDateString() ? short.slice(short.lastIndexOf(" ") + 1) : short;
+}
+
 /**
  * Create and manage the cron widget
  */
@@ -129,6 +138,13 @@ export class CronWidget {
         0
       )
     );
+    // Pause banner: nothing fires until it ends, whatever the rows say.
+    const pausedUntil = this.scheduler.getPausedUntil();
+    if (pausedUntil) {
+      container.addChild(
+        new Text(theme.fg("warning", theme.bold(`⏸ All jobs paused until ${formatPauseEnd(pausedUntil)}`)), 1, 0),
+      );
+    }
     container.addChild(new Spacer(1));
 
     // Job rows
@@ -142,6 +158,14 @@ export class CronWidget {
         statusIcon = theme.fg("warning", "⟳");
       } else if (job.lastStatus === "error") {
         statusIcon = theme.fg("error", "!");
+      } else if (job.lastStatus === "timeout") {
+        statusIcon = theme.fg("error", "⏱");
+      } else if (job.lastStatus === "deferred") {
+        statusIcon = theme.fg("warning", "⏸");
+      } else if (job.lastStatus === "dropped") {
+        statusIcon = theme.fg("muted", "⊘");
+      } else if (job.lastStatus === "skipped") {
+        statusIcon = theme.fg("muted", "↷");
       } else {
         statusIcon = theme.fg("success", "✓");
       }
@@ -156,8 +180,16 @@ export class CronWidget {
       let scheduleRaw: string;
       if (job.type === "cron") {
         scheduleRaw = humanizeCron(job.schedule);
+      } else if (job.type === "after") {
+        scheduleRaw = `after ${this.storage.getJob(job.schedule)?.name ?? job.schedule}`;
+      } else if (job.type === "git") {
+        scheduleRaw = `git ${job.schedule}`;
+      } else if (job.type === "idle") {
+        scheduleRaw = `idle ${job.schedule}`;
+      } else if (CronScheduler.isLifecycle(job.type)) {
+        scheduleRaw = CronScheduler.describeSchedule(job.type, job.schedule);
       } else if (job.type === "once" && job.schedule.includes("T")) {
-        scheduleRaw = formatISOShort(job.schedule);
+        scheduleRaw = formatISOShort(job.schedule, job.timezone);
       } else {
         scheduleRaw = job.schedule;
       }
@@ -170,16 +202,36 @@ export class CronWidget {
       const promptPadded = promptRaw.padEnd(25);
       const promptText = theme.fg("dim", promptPadded);
 
-      // Next run (max 10 chars, pad before coloring)
+      // Next run (max 10 chars, pad before coloring). A fire held back by
+      // quiet hours shows as "deferred" until the window ends, a failed
+      // subagent run being retried as "retry 2/3". A snoozed job's next run
+      // is marked "z", one with skips pending "↷<count>".
       const nextRun = this.scheduler.getNextRun(job.id);
-      const nextRaw = nextRun ? formatRelativeTime(nextRun) : "-";
+      const snoozed = !!job.snoozedUntil && new Date(job.snoozedUntil).getTime() > Date.now();
+      let notice: string | undefined;
+      if (job.enabled && snoozed) {
+        notice = `z ${nextRun ? formatRelativeTime(nextRun) : formatRelativeTime(job.snoozedUntil as string)}`;
+      } else if (job.enabled && job.skipCount) {
+        notice = `↷${job.skipCount} ${nextRun ? formatRelativeTime(nextRun) : "-"}`;
+      } else if (job.enabled && job.lastStatus === "deferred") {
+        notice = "deferred";
+      } else if (job.lastStatus === "running" && job.retryAttempt) {
+        notice = `retry ${job.retryAttempt}/${job.retry?.attempts ?? "?"}`;
+      }
+      const nextRaw = notice ?? (nextRun ? formatRelativeTime(nextRun) : "-");
       const nextPadded = nextRaw.padEnd(10);
-      const nextText = nextPadded;
+      const nextText = notice ? theme.fg("warning", nextPadded) : nextPadded;
 
-      // Last run (max 10 chars, pad before coloring)
-      const lastRaw = job.lastRun ? formatRelativeTime(job.lastRun) : "never";
+      // Last run (max 10 chars, pad before coloring). A run the machine slept
+      // through and caught up late shows how late, "⏰ 3h late".
+      const late = job.lateByMs !== undefined ? `⏰ ${formatLateness(job.lateByMs)} late` : undefined;
+      const lastRaw = late ?? (job.lastRun ? formatRelativeTime(job.lastRun) : "never");
       const lastPadded = lastRaw.padEnd(10);
-      const lastText = job.lastRun ? lastPadded : theme.fg("dim", lastPadded);
+      const lastText = late
+        ? theme.fg("warning", lastPadded)
+        : job.lastRun
+          ? lastPadded
+          : theme.fg("dim", lastPadded);
 
       // Run count (pad to 3 chars for alignment)
       const countText = theme.fg("accent", (job.runCount ?? 0).toString().padEnd(3));
@@ -191,9 +243,15 @@ export class CronWidget {
             `[${job.model.length > 12 ? job.model.substring(0, 9) + "..." : job.model}${job.notify ? "!" : ""}]`)
         : "";
 
+      // Timezone badge for any job pinned to a zone, even the host's own —
+      // except interval jobs, which have no wall-clock schedule to apply it to.
+      // Kept out of the schedule column so truncation never hides it.
+      const tzBadge =
+        job.timezone && job.type !== "interval" ? " " + theme.fg("dim", `@${job.timezone}`) : "";
+
       // Combine into a row with proper spacing
       lines.push(
-        ` ${statusIcon} ${nameText} ${scheduleText} ${promptText} ${nextText} ${lastText} ${countText}${modelBadge}`
+        ` ${statusIcon} ${nameText} ${scheduleText} ${promptText} ${nextText} ${lastText} ${countText}${modelBadge}${tzBadge}`
       );
     }
 
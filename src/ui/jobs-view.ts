@@ -1,12 +1,20 @@
 /**
  * JobsView — single TUI overlay that consolidates view + add + toggle + remove
- * + cleanup for scheduled prompts. Foreign-session jobs render read-only in a
+ * + cleanup + pause + snooze + run-now for scheduled prompts. Foreign-session jobs render read-only in a
  * separate group; actions (t/x/c) ignore them.
  */
 
 import type { Component } from "@earendil-works/pi-tui";
 import { matchesKey } from "@earendil-works/pi-tui";
-import { CronScheduler } from "../scheduler.js";
+import { describeQuietHours } from "../quiet-hours.js";
+import {
+  CronScheduler,
+  DEFAULT_PAUSE_MS,
+  DEFAULT_SNOOZE_MS,
+  describeLateness,
+  formatElapsed,
+  formatISOShort,
+} from "../scheduler.js";
 import type { CronStorage } from "../storage.js";
 import type { CronJob } from "../types.js";
 
@@ -113,6 +121,13 @@ export class JobsView implements Component {
         });
       return;
     }
+    if (matchesKey(data, "p")) {
+      // Pauses every job in the cwd, foreign-session ones included — the
+      // pause is stored next to the jobs and read by every pi at fire time.
+      if (this.scheduler.getPausedUntil()) this.scheduler.resume();
+      else this.scheduler.pause(new Date(Date.now() + DEFAULT_PAUSE_MS));
+      return;
+    }
 
     const sel = this.selectedJob();
     if (!sel) return;
@@ -127,8 +142,8 @@ export class JobsView implements Component {
     }
     if (matchesKey(data, "s")) {
       // Toggle this job's binding: session-bound ↔ shared. Other pi sessions
-      // already running in this cwd won't see the change until they restart;
-      // their in-memory schedulers are stale until session_start.
+      // in this cwd load or drop the job when their store watcher sees the
+      // write (`CronScheduler.syncFromStorage`).
       if (this.isSelectionForeign()) return;
       const session = sel.session ? undefined : this.mySessionId;
       this.storage.updateJob(sel.id, { session });
@@ -136,6 +151,19 @@ export class JobsView implements Component {
       this.refresh();
       return;
     }
+    if (matchesKey(data, "r")) {
+      if (this.isSelectionForeign()) return;
+      this.scheduler.runNow(sel.id);
+      this.refresh();
+      return;
+    }
+    if (matchesKey(data, "z")) {
+      // Each press pushes the next run back another 15 minutes.
+      if (this.isSelectionForeign() || !sel.enabled) return;
+      this.scheduler.snooze(sel.id, this.scheduler.snoozeEnd(sel.id, DEFAULT_SNOOZE_MS));
+      this.refresh();
+      return;
+    }
     if (matchesKey(data, "x")) {
       if (this.isSelectionForeign()) return;
       this.confirm = { kind: "remove", id: sel.id, name: sel.name };
@@ -168,8 +196,15 @@ export class JobsView implements Component {
     } else if (total === 0) {
       lines.push(` ${this.theme.fg("accent", this.theme.bold("Jobs"))}  —  a add   q quit`);
     } else {
+      const pauseKey = this.scheduler.getPausedUntil() ? "p resume" : "p pause";
+      lines.push(
+        ` ${this.theme.fg("accent", this.theme.bold("Jobs"))}  —  ↑↓ select   a add   t toggle   s scope   r run   z snooze   x remove   c cleanup   ${pauseKey}   q quit`,
+      );
+    }
+    const pausedUntil = this.scheduler.getPausedUntil();
+    if (pausedUntil) {
       lines.push(
-        ` ${this.theme.fg("accent", this.theme.bold("Jobs"))}  —  ↑↓ select   a add   t toggle   s scope   x remove   c cleanup   q quit`,
+        this.theme.fg("warning", ` ⏸ All jobs paused until ${formatISOShort(pausedUntil)} — p to resume`),
       );
     }
     lines.push(rule);
@@ -200,9 +235,43 @@ export class JobsView implements Component {
       const next = !this.isSelectionForeign() ? this.scheduler.getNextRun(sel.id) : null;
       const meta = [
         `Type: ${sel.type}`,
+        sel.timezone ? `Timezone: ${sel.timezone}` : null,
+        sel.type === "watch" && sel.debounceMs !== undefined
+          ? `Debounce: ${formatElapsed(sel.debounceMs)}`
+          : null,
         next ? `Next: ${next.toISOString()}` : null,
         sel.lastRun ? `Last: ${sel.lastRun}` : null,
-        `Runs: ${sel.runCount}`,
+        sel.maxRuns
+          ? `Runs: ${sel.runCount}/${sel.maxRuns} (${Math.max(0, sel.maxRuns - sel.runCount)} left)`
+          : `Runs: ${sel.runCount}`,
+        sel.skippedRuns ? `Skipped: ${sel.skippedRuns}` : null,
+        sel.model && sel.timeoutMs ? `Timeout: ${formatElapsed(sel.timeoutMs)}` : null,
+        sel.model && sel.retry?.attempts
+          ? `Retry: ${sel.retryAttempt ? `${sel.retryAttempt}/` : "up to "}${sel.retry.attempts}`
+          : null,
+        sel.model && sel.overlap && sel.overlap !== "allow" ? `Overlap: ${sel.overlap}` : null,
+        sel.startAt && new Date(sel.startAt).getTime() > Date.now()
+          ? `Starts: ${formatISOShort(sel.startAt, sel.timezone)}`
+          : null,
+        sel.endAt ? `Expires: ${formatISOShort(sel.endAt, sel.timezone)}` : null,
+        sel.snoozedUntil && new Date(sel.snoozedUntil).getTime() > Date.now()
+          ? `Snoozed until: ${formatISOShort(sel.snoozedUntil, sel.timezone)}`
+          : null,
+        sel.skipCount ? `Skipping next: ${sel.skipCount}` : null,
+        sel.lastStatus === "deferred" && sel.deferredUntil
+          ? `Deferred until: ${formatISOShort(sel.deferredUntil)}`
+          : null,
+        !sel.model && sel.delivery && sel.delivery !== "followUp" ? `Delivery: ${sel.delivery}` : null,
+        sel.when ? `When: ${truncate(sel.when, 40)}` : null,
+        sel.lastStatus === "skipped" && sel.lastSkipReason
+          ? `Last skip: ${truncate(sel.lastSkipReason, 60)}`
+          : null,
+        sel.lateByMs !== undefined ? `Last run: ${describeLateness(sel.lateByMs)}` : null,
+        sel.quietHours === false
+          ? "Quiet hours: ignored"
+          : sel.quietHours
+            ? `Quiet hours: ${describeQuietHours(sel.quietHours)}`
+            : null,
       ]
         .filter(Boolean)
         .join("   ");
@@ -225,20 +294,34 @@ export class JobsView implements Component {
     // that class of issue.
     let icon: string;
     if (isForeign) {
-      icon = !job.enabled ? "✗" : job.lastStatus === "error" ? "!" : "✓";
+      icon = !job.enabled
+        ? "✗"
+        : job.lastStatus === "error" || job.lastStatus === "timeout"
+          ? "!"
+          : "✓";
     } else if (!job.enabled) {
       icon = this.theme.fg("muted", "✗");
     } else if (job.lastStatus === "running") {
       icon = this.theme.fg("warning", "⟳");
     } else if (job.lastStatus === "error") {
       icon = this.theme.fg("error", "!");
+    } else if (job.lastStatus === "timeout") {
+      icon = this.theme.fg("error", "⏱");
+    } else if (job.lastStatus === "deferred") {
+      icon = this.theme.fg("warning", "⏸");
+    } else if (job.lastStatus === "dropped") {
+      icon = this.theme.fg("muted", "⊘");
+    } else if (job.lastStatus === "skipped") {
+      icon = this.theme.fg("muted", "↷");
     } else {
       icon = this.theme.fg("success", "✓");
     }
 
     const name = truncate(job.name, NAME_W).padEnd(NAME_W);
     const sched = truncate(
-      CronScheduler.describeSchedule(job.type, job.schedule),
+      job.type === "after"
+        ? `after ${this.storage.getJob(job.schedule)?.name ?? job.schedule}`
+        : CronScheduler.describeSchedule(job.type, job.schedule, job.timezone),
       SCHED_W,
     ).padEnd(SCHED_W);
     const prompt = truncate(job.prompt, PROMPT_W).padEnd(PROMPT_W);
@@ -15,9 +15,10 @@ function makeStorage(jobs: CronJob[]): CronStorage {
   } as any;
 }
 
-function makeScheduler(_jobs: CronJob[]): CronScheduler {
+function makeScheduler(_jobs: CronJob[], pausedUntil?: Date): CronScheduler {
   return {
     getNextRun: vi.fn(() => null),
+    getPausedUntil: vi.fn(() => pausedUntil),
     isLoadedFor: vi.fn(() => true),
   } as any;
 }
@@ -66,3 +67,74 @@ describe("CronWidget — render", () => {
     expect(() => widgetImpl.render(100)).not.toThrow();
   });
 });
+
+describe("CronWidget — quiet hours", () => {
+  it("shows a fire held back by quiet hours as deferred in the next column", () => {
+    const job = exampleJob({ runCount: 2, lastStatus: "deferred", deferredUntil: new Date().toISOString() });
+    const ctx = makeCtx();
+    const widget = new CronWidget(makeStorage([job]), makeScheduler([job]) as any, makePi(), () => true, "test-session");
+    widget.show(ctx);
+
+    const widgetFactory = ctx.ui.setWidget.mock.calls[0][1];
+    const theme = { fg: (_color: string, s: string) => s, bold: (s: string) => s };
+    const rendered = widgetFactory(null, theme).render(140).join("\n");
+    expect(rendered).toContain("⏸");
+    expect(rendered).toContain("deferred");
+  });
+});
+
+describe("CronWidget — pause", () => {
+  it("shows a banner with the pause end while the scheduler is paused", () => {
+    const job = exampleJob({ runCount: 0 });
+    const until = new Date(Date.now() + 60_000);
+    const ctx = makeCtx();
+    const widget = new CronWidget(makeStorage([job]), makeScheduler([job], until) as any, makePi(), () => true, "test-session");
+    widget.show(ctx);
+
+    const widgetFactory = ctx.ui.setWidget.mock.calls[0][1];
+    const theme = { fg: (_color: string, s: string) => s, bold: (s: string) => s };
+    const rendered = widgetFactory(null, theme).render(140).join("\n");
+    const hhmm = `${until.getHours().toString().padStart(2, "0")}:${until.getMinutes().toString().padStart(2, "0")}`;
+    expect(rendered).toContain(`All jobs paused until`);
+    expect(rendered).toContain(hhmm);
+  });
+
+  it("shows no banner when not paused", () => {
+    const job = exampleJob({ runCount: 0 });
+    const ctx = makeCtx();
+    const widget = new CronWidget(makeStorage([job]), makeScheduler([job]) as any, makePi(), () => true, "test-session");
+    widget.show(ctx);
+
+    const widgetFactory = ctx.ui.setWidget.mock.calls[0][1];
+    const theme = { fg: (_color: string, s: string) => s, bold: (s: string) => s };
+    expect(widgetFactory(null, theme).render(140).join("\n")).not.toContain("paused");
+  });
+});
+
+describe("CronWidget — snooze and skip", () => {
+  function renderRow(job: CronJob, next: Date | null): string {
+    const scheduler = { getNextRun: vi.fn(() => next), getPausedUntil: vi.fn(() => undefined) };
+    const ctx = makeCtx();
+    new CronWidget(makeStorage([job]), scheduler as any, makePi(), () => true, "test-session").show(ctx);
+    const theme = { fg: (_color: string, s: string) => s, bold: (s: string) => s };
+    return ctx.ui.setWidget.mock.calls[0][1](null, theme).render(140).join("\n");
+  }
+
+  it("marks a snoozed job's next run with z", () => {
+    const until = new Date(Date.now() + 20 * 60_000 + 5_000);
+    const rendered = renderRow(exampleJob({ runCount: 0, snoozedUntil: until.toISOString() }), until);
+    expect(rendered).toContain("z in 20m");
+  });
+
+  it("shows pending skips next to the next run", () => {
+    const rendered = renderRow(exampleJob({ runCount: 0, skipCount: 2 }), new Date(Date.now() + 3 * 60 * 60_000 + 5_000));
+    expect(rendered).toContain("↷2 in 3h");
+  });
+  it("shows how late a run caught up after sleep went out in the last column", () => {
+    const rendered = renderRow(
+      exampleJob({ runCount: 1, lastRun: new Date().toISOString(), lateByMs: 3 * 60 * 60_000 }),
+      null,
+    );
+    expect(rendered).toContain("⏰ 3h late");
+  });
+});
@@ -0,0 +1,106 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { globBase, globToRegExp, watchFiles } from "../src/file-watch.js";
+
+describe("globToRegExp", () => {
+  const matches = (glob: string, path: string) => globToRegExp(glob).test(path);
+
+  it("keeps * and ? inside one path segment", () => {
+    expect(matches("logs/*.log", "logs/app.log")).toBe(true);
+    expect(matches("logs/*.log", "logs/old/app.log")).toBe(false);
+    expect(matches("file?.txt", "file1.txt")).toBe(true);
+    expect(matches("file?.txt", "file10.txt")).toBe(false);
+  });
+
+  it("lets ** span any number of directories, including none", () => {
+    expect(matches("src/**/*.ts", "src/a.ts")).toBe(true);
+    expect(matches("src/**/*.ts", "src/ui/deep/b.ts")).toBe(true);
+    expect(matches("src/**/*.ts", "test/a.ts")).toBe(false);
+    expect(matches("src/**", "src/ui/b.ts")).toBe(true);
+  });
+
+  it("supports {a,b} alternatives and [..] classes", () => {
+    expect(matches("src/*.{ts,tsx}", "src/view.tsx")).toBe(true);
+    expect(matches("src/*.{ts,tsx}", "src/view.js")).toBe(false);
+    expect(matches("v[0-9].md", "v3.md")).toBe(true);
+    expect(matches("v[!0-9].md", "v3.md")).toBe(false);
+  });
+
+  it("treats regex metacharacters literally", () => {
+    expect(matches("a+b.(1).txt", "a+b.(1).txt")).toBe(true);
+    expect(matches("a.txt", "abtxt")).toBe(false);
+  });
+});
+
+describe("globBase", () => {
+  it("returns the directory before the first wildcard segment", () => {
+    expect(globBase("src/**/*.ts")).toBe("src");
+    expect(globBase("logs/*.log")).toBe("logs");
+    expect(globBase("*.md")).toBe("");
+    expect(globBase("docs/api/{a,b}/*.md")).toBe("docs/api");
+  });
+
+  it("returns the parent directory of a literal path", () => {
+    expect(globBase("package.json")).toBe("");
+    expect(globBase("logs/app.log")).toBe("logs");
+  });
+});
+
+describe("watchFiles", () => {
+  let dir: string;
+  let close: (() => void) | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pi-schedule-watch-"));
+    mkdirSync(join(dir, "src", "ui"), { recursive: true });
+  });
+
+  afterEach(() => {
+    close?.();
+    close = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("debounces a burst of matching changes into one call with the cwd-relative paths", async () => {
+    const onChange = vi.fn();
+    close = watchFiles(dir, ["src/**/*.ts"], 100, onChange);
+
+    writeFileSync(join(dir, "src", "a.ts"), "a");
+    writeFileSync(join(dir, "src", "ui", "b.ts"), "b");
+    writeFileSync(join(dir, "src", "notes.md"), "ignored");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), { timeout: 2000 });
+    expect(onChange.mock.calls[0][0]).toEqual(["src/a.ts", "src/ui/b.ts"]);
+  });
+
+  it("never matches or walks into .pi, .git and node_modules below a pattern's base", async () => {
+    for (const excluded of [".pi", ".git", join("node_modules", "dep")]) mkdirSync(join(dir, excluded), { recursive: true });
+    const onChange = vi.fn();
+    close = watchFiles(dir, ["**/*.json", ".pi/notes/*.md"], 100, onChange);
+
+    // The job store's own writes: a watch job on `**/*.json` must not trigger itself.
+    writeFileSync(join(dir, ".pi", "schedule-prompts.json"), "{}");
+    writeFileSync(join(dir, ".git", "config.json"), "{}");
+    writeFileSync(join(dir, "node_modules", "dep", "package.json"), "{}");
+    mkdirSync(join(dir, "config"));
+    await new Promise((r) => setTimeout(r, 50));
+    writeFileSync(join(dir, "config", "app.json"), "{}");
+    writeFileSync(join(dir, "package.json"), "{}");
+    mkdirSync(join(dir, ".pi", "notes"));
+    writeFileSync(join(dir, ".pi", "notes", "todo.md"), "x");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), { timeout: 2000 });
+    expect(onChange.mock.calls[0][0]).toEqual([".pi/notes/todo.md", "config/app.json", "package.json"]);
+  });
+
+  it("calls nothing after it was closed", async () => {
+    const onChange = vi.fn();
+    close = watchFiles(dir, ["src/*.ts"], 50, onChange);
+    close();
+    writeFileSync(join(dir, "src", "a.ts"), "a");
+    await new Promise((r) => setTimeout(r, 200));
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
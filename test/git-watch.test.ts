@@ -0,0 +1,95 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { findGitDir, renderGitPrompt, watchGit } from "../src/git-watch.js";
+
+const SHA_A = "a".repeat(40);
+const SHA_B = "b".repeat(40);
+const SHA_C = "c".repeat(40);
+
+describe("renderGitPrompt", () => {
+  it("fills branch and SHA placeholders and leaves others alone", () => {
+    const change = { branch: "main", oldSha: SHA_A, newSha: SHA_B };
+    expect(renderGitPrompt("review {{oldSha}}..{{ newSha }} on {{branch}} ({{other}})", change)).toBe(
+      `review ${SHA_A}..${SHA_B} on main ({{other}})`,
+    );
+  });
+});
+
+describe("watchGit", () => {
+  let repo: string;
+  let gitDir: string;
+  let close: (() => void) | undefined;
+
+  beforeEach(() => {
+    // A hand-built repository: enough files for the ref reader, no git binary needed.
+    repo = mkdtempSync(join(tmpdir(), "pi-schedule-git-"));
+    gitDir = join(repo, ".git");
+    mkdirSync(join(gitDir, "refs", "heads"), { recursive: true });
+    mkdirSync(join(repo, "src"));
+    writeFileSync(join(gitDir, "HEAD"), "ref: refs/heads/main\n");
+    writeFileSync(join(gitDir, "refs", "heads", "main"), `${SHA_A}\n`);
+    writeFileSync(join(gitDir, "packed-refs"), `# pack-refs with: peeled\n${SHA_C} refs/heads/release\n`);
+  });
+
+  afterEach(() => {
+    close?.();
+    close = undefined;
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("finds the git directory from a subdirectory", () => {
+    expect(findGitDir(join(repo, "src"))).toBe(gitDir);
+    expect(findGitDir(tmpdir())).toBeNull();
+  });
+
+  it("reports a new commit on the checked-out branch", async () => {
+    const onChange = vi.fn();
+    close = watchGit(repo, "HEAD", onChange);
+
+    writeFileSync(join(gitDir, "refs", "heads", "main"), `${SHA_B}\n`);
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), { timeout: 3000 });
+    expect(onChange).toHaveBeenCalledWith({ branch: "main", oldSha: SHA_A, newSha: SHA_B });
+  });
+
+  it("follows a named branch from packed-refs to a loose ref, ignoring other branches", async () => {
+    const onChange = vi.fn();
+    close = watchGit(repo, "release", onChange);
+
+    writeFileSync(join(gitDir, "refs", "heads", "main"), `${SHA_B}\n`);
+    await new Promise((r) => setTimeout(r, 600));
+    expect(onChange).not.toHaveBeenCalled();
+
+    writeFileSync(join(gitDir, "refs", "heads", "release"), `${SHA_A}\n`);
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), { timeout: 3000 });
+    expect(onChange).toHaveBeenCalledWith({ branch: "release", oldSha: SHA_C, newSha: SHA_A });
+  });
+
+  it("reports a checkout of another branch at the same commit", async () => {
+    writeFileSync(join(gitDir, "refs", "heads", "feature"), `${SHA_A}\n`);
+    const onChange = vi.fn();
+    close = watchGit(repo, "HEAD", onChange);
+
+    writeFileSync(join(gitDir, "HEAD"), "ref: refs/heads/feature\n");
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), { timeout: 3000 });
+    expect(onChange).toHaveBeenCalledWith({ branch: "feature", oldSha: SHA_A, newSha: SHA_A });
+  });
+
+  it("reports a fetch that moves the branch's upstream, even before the first one created refs/remotes", async () => {
+    writeFileSync(join(gitDir, "config"), '[core]\n\tbare = false\n[branch "main"]\n\tremote = origin\n\tmerge = refs/heads/main\n');
+    const onChange = vi.fn();
+    close = watchGit(repo, "main", onChange);
+
+    mkdirSync(join(gitDir, "refs", "remotes", "origin"), { recursive: true });
+    writeFileSync(join(gitDir, "refs", "remotes", "origin", "main"), `${SHA_A}\n`);
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), { timeout: 3000 });
+    expect(onChange).toHaveBeenLastCalledWith({ branch: "origin/main", oldSha: "", newSha: SHA_A });
+
+    writeFileSync(join(gitDir, "refs", "remotes", "origin", "main"), `${SHA_B}\n`);
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(2), { timeout: 3000 });
+    expect(onChange).toHaveBeenLastCalledWith({ branch: "origin/main", oldSha: SHA_A, newSha: SHA_B });
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHeadlessPi, formatLogLine, HeadlessStorage, parseRunArgs } from "../src/headless.js";
+import type { CronJob } from "../src/types.js";
+
+function exampleJob(overrides: Partial<CronJob> = {}): CronJob {
+  return {
+    id: "job-1",
+    name: "demo",
+    schedule: "0 0 9 * * *",
+    prompt: "do the thing",
+    enabled: true,
+    type: "cron",
+    createdAt: new Date().toISOString(),
+    runCount: 0,
+    ...overrides,
+  };
+}
+
+describe("parseRunArgs", () => {
+  it("defaults to the current directory and its .pi log", () => {
+    const options = parseRunArgs([]);
+    expect(options.cwd).toBe(process.cwd());
+    expect(options.log).toBe(join(process.cwd(), ".pi", "schedule-prompts.log"));
+    expect(options.allSessions).toBe(false);
+  });
+
+  it("reads --cwd, --log and --all-sessions", () => {
+    const options = parseRunArgs(["--cwd", "/srv/app", "--log", "-", "--all-sessions"]);
+    expect(options).toEqual({ cwd: "/srv/app", log: "-", allSessions: true });
+  });
+
+  it("rejects unknown arguments and missing values", () => {
+    expect(() => parseRunArgs(["--verbose"])).toThrow("Unknown argument: --verbose");
+    expect(() => parseRunArgs(["--cwd"])).toThrow("--cwd needs a value");
+  });
+});
+
+describe("formatLogLine", () => {
+  const at = new Date("2026-10-19T09:00:00Z");
+  const base = { jobId: "j1", jobName: "digest", model: "haiku" };
+
+  it("renders start, finish and failure markers", () => {
+    expect(formatLogLine({ ...base, mode: "subagent_start" }, at)).toBe(
+      "2026-10-19T09:00:00.000Z digest (j1) [haiku] started",
+    );
+    expect(formatLogLine({ ...base, mode: "subagent_done", output: "all good" }, at)).toBe(
+      "2026-10-19T09:00:00.000Z digest (j1) [haiku] finished: all good",
+    );
+    expect(
+      formatLogLine(
+        { ...base, mode: "subagent_error", error: "boom", elapsedMs: 42_000, retry: { attempt: 2, attempts: 2 } },
+        at,
+      ),
+    ).toBe("2026-10-19T09:00:00.000Z digest (j1) [haiku, retry 2/2] failed after 42s: boom");
+  });
+
+  it("notes a run that went out late after sleep", () => {
+    expect(formatLogLine({ ...base, mode: "subagent_start", lateByMs: 3 * 60 * 60_000 }, at)).toBe(
+      "2026-10-19T09:00:00.000Z digest (j1) [haiku] started (fired 3h late after sleep)",
+    );
+  });
+});
+
+describe("HeadlessStorage", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "pi-schedule-headless-"));
+    mkdirSync(join(cwd, ".pi"));
+    const jobs = [
+      exampleJob({ id: "sub", model: "haiku" }),
+      exampleJob({ id: "inline" }),
+      exampleJob({ id: "bound", model: "haiku", session: "s1" }),
+      exampleJob({ id: "idle", model: "haiku", type: "idle", schedule: "20m", intervalMs: 1_200_000 }),
+      exampleJob({ id: "start", model: "haiku", type: "onSessionStart", schedule: "onSessionStart" }),
+    ];
+    writeFileSync(join(cwd, ".pi", "schedule-prompts.json"), JSON.stringify({ version: 1, jobs }));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it("shows only subagent jobs that can run without a session", () => {
+    const storage = new HeadlessStorage(cwd, false);
+    expect(storage.getAllJobs().map((j) => j.id)).toEqual(["sub", "bound"]);
+    expect(storage.getJob("inline")).toBeUndefined();
+    expect(storage.getJob("bound")?.session).toBe("s1");
+  });
+
+  it("hides session bindings with allSessions", () => {
+    const storage = new HeadlessStorage(cwd, true);
+    expect(storage.getJob("bound")?.session).toBeUndefined();
+  });
+});
+
+describe("createHeadlessPi", () => {
+  it("logs markers and delivers events to in-process listeners", () => {
+    const lines: string[] = [];
+    const pi = createHeadlessPi((line) => lines.push(line));
+    pi.sendMessage({
+      customType: "scheduled_prompt",
+      content: [],
+      display: true,
+      details: { jobId: "j1", jobName: "digest", model: "haiku", mode: "subagent_start" },
+    });
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatch(/digest \(j1\) \[haiku\] started$/);
+
+    const listener = vi.fn();
+    const off = pi.events.on("cron:change", listener);
+    pi.events.emit("cron:change", { type: "fire" });
+    off();
+    pi.events.emit("cron:change", { type: "fire" });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { claimLease, isProcessAlive } from "../src/lease.js";
+
+describe("claimLease", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(mkdtempSync(join(tmpdir(), "pi-schedule-lease-")), "leases");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(join(dir, ".."), { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function writeLease(jobId: string, slot: number, lease: object | string): void {
+    mkdirSync(dir, { recursive: true });
+    const body = typeof lease === "string" ? lease : JSON.stringify(lease);
+    writeFileSync(join(dir, `${jobId}@${slot}.lease`), body);
+  }
+
+  it("claims a free slot once per process, re-entrantly", () => {
+    const slot = Date.now();
+    expect(claimLease(dir, "job-1", slot)).toBe(true);
+    expect(claimLease(dir, "job-1", slot)).toBe(true);
+    expect(readdirSync(dir)).toEqual([`job-1@${slot}.lease`]);
+    expect(claimLease(dir, "job-1", slot + 60_000)).toBe(true);
+  });
+
+  it("loses a slot held by another live process", () => {
+    const slot = Date.now();
+    writeLease("job-1", slot, { pid: process.ppid, host: hostname(), claimedAt: new Date().toISOString() });
+    expect(isProcessAlive(process.ppid)).toBe(true);
+    expect(claimLease(dir, "job-1", slot)).toBe(false);
+  });
+
+  it("takes over the lease of a process that died", () => {
+    const dead = spawnSync(process.execPath, ["-e", ""]).pid as number;
+    expect(isProcessAlive(dead)).toBe(false);
+    const slot = Date.now();
+    writeLease("job-1", slot, { pid: dead, host: hostname(), claimedAt: new Date().toISOString() });
+    expect(claimLease(dir, "job-1", slot)).toBe(true);
+    expect(claimLease(dir, "job-1", slot)).toBe(true);
+  });
+
+  it("treats leases from another host, or still being written, as held", () => {
+    const slot = Date.now();
+    writeLease("job-1", slot, { pid: 1, host: `not-${hostname()}`, claimedAt: new Date().toISOString() });
+    expect(claimLease(dir, "job-1", slot)).toBe(false);
+    writeLease("job-2", slot, "");
+    expect(claimLease(dir, "job-2", slot)).toBe(false);
+  });
+
+  it("prunes leases of slots more than a day old", () => {
+    const old = Date.now() - 2 * 24 * 60 * 60 * 1000;
+    writeLease("job-1", old, { pid: process.ppid, host: hostname(), claimedAt: new Date(old).toISOString() });
+    claimLease(dir, "job-2", Date.now());
+    expect(existsSync(join(dir, `job-1@${old}.lease`))).toBe(false);
+  });
+
+  it("prunes a directory at most hourly", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      claimLease(dir, "job-1", Date.now());
+      const old = Date.now() - 2 * 24 * 60 * 60 * 1000;
+      writeLease("job-2", old, { pid: process.ppid, host: hostname(), claimedAt: new Date(old).toISOString() });
+      claimLease(dir, "job-1", Date.now() + 60_000);
+      expect(existsSync(join(dir, `job-2@${old}.lease`))).toBe(true);
+
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+      claimLease(dir, "job-1", Date.now());
+      expect(existsSync(join(dir, `job-2@${old}.lease`))).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("fails open when the lease directory can't be created", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const blocked = join(dir, "..", "file");
+    writeFileSync(blocked, "");
+    expect(claimLease(join(blocked, "leases"), "job-1", Date.now())).toBe(true);
+  });
+});
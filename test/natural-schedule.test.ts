@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { parseNaturalSchedule } from "../src/natural-schedule.js";
+import { CronScheduler } from "../src/scheduler.js";
+
+// Wednesday 2026-01-14 10:30 local. One-shot results are zone-less wall-clock
+// ISO strings, so asserting them doesn't depend on the host's timezone.
+const NOW = new Date(2026, 0, 14, 10, 30, 0);
+
+function parse(input: string) {
+  return parseNaturalSchedule(input, NOW);
+}
+
+describe("parseNaturalSchedule — recurring", () => {
+  it("maps day-based phrases to 6-field cron", () => {
+    expect(parse("every weekday at 9am")).toEqual({ type: "cron", schedule: "0 0 9 * * 1-5" });
+    expect(parse("every day at 9:30")).toEqual({ type: "cron", schedule: "0 30 9 * * *" });
+    expect(parse("daily at noon")).toEqual({ type: "cron", schedule: "0 0 12 * * *" });
+    expect(parse("at 6pm every day")).toEqual({ type: "cron", schedule: "0 0 18 * * *" });
+    expect(parse("weekends at 10am")).toEqual({ type: "cron", schedule: "0 0 10 * * 0,6" });
+    expect(parse("every monday and friday at 8:15am")).toEqual({
+      type: "cron",
+      schedule: "0 15 8 * * 1,5",
+    });
+    expect(parse("weekly on tuesday at 5pm")).toEqual({ type: "cron", schedule: "0 0 17 * * 2" });
+    expect(parse("every month on the 15th at 9am")).toEqual({
+      type: "cron",
+      schedule: "0 0 9 15 * *",
+    });
+  });
+
+  it("maps plain frequencies to aligned cron or interval", () => {
+    expect(parse("every minute")).toEqual({ type: "cron", schedule: "0 * * * * *" });
+    expect(parse("every hour")).toEqual({ type: "cron", schedule: "0 0 * * * *" });
+    expect(parse("hourly")).toEqual({ type: "cron", schedule: "0 0 * * * *" });
+    expect(parse("every 10 minutes")).toEqual({ type: "interval", schedule: "10m" });
+    expect(parse("every two hours")).toEqual({ type: "interval", schedule: "2h" });
+    expect(parse("every 2 weeks")).toEqual({ type: "interval", schedule: "14d" });
+  });
+
+  it("maps windowed frequencies to cron hour ranges", () => {
+    expect(parse("every 2 hours between 9 and 17")).toEqual({
+      type: "cron",
+      schedule: "0 0 9-17/2 * * *",
+    });
+    expect(parse("every 15 minutes between 9am and 5pm on weekdays")).toEqual({
+      type: "cron",
+      schedule: "0 */15 9-16 * * 1-5",
+    });
+  });
+});
+
+describe("parseNaturalSchedule — one-shot", () => {
+  it("resolves relative phrases to relative time", () => {
+    expect(parse("in 20 minutes")).toEqual({ type: "once", schedule: "+20m" });
+    expect(parse("in an hour")).toEqual({ type: "once", schedule: "+1h" });
+    expect(parse("in half an hour")).toEqual({ type: "once", schedule: "+30m" });
+    expect(parse("2 days from now")).toEqual({ type: "once", schedule: "+2d" });
+  });
+
+  it("anchors day words to the current date", () => {
+    expect(parse("tomorrow at 3pm")).toEqual({ type: "once", schedule: "2026-01-15T15:00:00" });
+    expect(parse("3pm tomorrow")).toEqual({ type: "once", schedule: "2026-01-15T15:00:00" });
+    expect(parse("today at 17:45")).toEqual({ type: "once", schedule: "2026-01-14T17:45:00" });
+    expect(parse("tonight at 9")).toEqual({ type: "once", schedule: "2026-01-14T21:00:00" });
+  });
+
+  it("rolls a bare time that already passed over to tomorrow", () => {
+    expect(parse("at 11am")).toEqual({ type: "once", schedule: "2026-01-14T11:00:00" });
+    expect(parse("at 9am")).toEqual({ type: "once", schedule: "2026-01-15T09:00:00" });
+  });
+
+  it("resolves weekdays to their next occurrence", () => {
+    expect(parse("friday at 9am")).toEqual({ type: "once", schedule: "2026-01-16T09:00:00" });
+    // Today is Wednesday: "next wednesday" is a week out.
+    expect(parse("next wednesday at 9am")).toEqual({
+      type: "once",
+      schedule: "2026-01-21T09:00:00",
+    });
+  });
+
+  it("uses the wall-clock date of the given timezone", () => {
+    // 2026-01-14T23:30Z is already the 15th in Tokyo.
+    const late = new Date(Date.UTC(2026, 0, 14, 23, 30));
+    expect(parseNaturalSchedule("tomorrow at 9am", late, "Asia/Tokyo")).toEqual({
+      type: "once",
+      schedule: "2026-01-16T09:00:00",
+    });
+  });
+});
+
+describe("parseNaturalSchedule — no guessing", () => {
+  it("returns null for anything outside the grammar", () => {
+    expect(parse("five minutes")).toBeNull();
+    expect(parse("whenever you feel like it")).toBeNull();
+    expect(parse("tomorrow")).toBeNull();
+    expect(parse("every second monday")).toBeNull();
+    expect(parse("every 2 hours between 17 and 9")).toBeNull();
+    expect(parse("at 25:00")).toBeNull();
+  });
+});
+
+describe("CronScheduler.validateSchedule — natural-language fallback", () => {
+  it("resolves a phrase and reports the type it decided on", () => {
+    const r = CronScheduler.validateSchedule("cron", "every weekday at 9am");
+    expect(r.ok).toBe(true);
+    if (r.ok) {
+      expect(r.type).toBe("cron");
+      expect(r.schedule).toBe("0 0 9 * * 1-5");
+    }
+  });
+
+  it("overrides the requested type when the phrase implies another", () => {
+    const r = CronScheduler.validateSchedule("cron", "in 20 minutes");
+    expect(r.ok).toBe(true);
+    if (r.ok) {
+      expect(r.type).toBe("once");
+      expect(new Date(r.schedule).getTime() - Date.now()).toBeGreaterThan(19 * 60 * 1000);
+    }
+
+    const every = CronScheduler.validateSchedule("once", "every 10 minutes");
+    expect(every.ok).toBe(true);
+    if (every.ok) {
+      expect(every.type).toBe("interval");
+      expect(every.intervalMs).toBe(10 * 60 * 1000);
+    }
+  });
+
+  it("keeps the native error when the phrase isn't recognised", () => {
+    const r = CronScheduler.validateSchedule("cron", "whenever");
+    expect(r.ok).toBe(false);
+    if (!r.ok) expect(r.error).toContain("Invalid cron expression");
+  });
+});
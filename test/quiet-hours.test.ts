@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { describeQuietHours, quietHoursEnd, validateQuietHours } from "../src/quiet-hours.js";
+import type { QuietHours } from "../src/types.js";
+
+// Wednesday 2026-01-14, host local time. Windows without a timezone are read
+// in host local time, so assertions hold whatever zone the host runs in.
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 0, day, hour, minute);
+
+describe("quietHoursEnd", () => {
+  const nights: QuietHours = { windows: [{ start: "22:00", end: "07:00" }] };
+
+  it("returns null outside every window", () => {
+    expect(quietHoursEnd(nights, at(14, 12))).toBeNull();
+    expect(quietHoursEnd(nights, at(14, 7))).toBeNull();
+  });
+
+  it("ends an overnight window the next morning, from either side of midnight", () => {
+    expect(quietHoursEnd(nights, at(14, 23, 30))).toEqual(at(15, 7));
+    expect(quietHoursEnd(nights, at(15, 2))).toEqual(at(15, 7));
+  });
+
+  it("honours day filters on the day the window opens", () => {
+    const standup: QuietHours = { windows: [{ start: "09:30", end: "09:45", days: [1, 2, 3, 4, 5] }] };
+    expect(quietHoursEnd(standup, at(14, 9, 35))).toEqual(at(14, 9, 45));
+    // Saturday 2026-01-17.
+    expect(quietHoursEnd(standup, at(17, 9, 35))).toBeNull();
+  });
+
+  it("follows windows that run into each other", () => {
+    // Friday night runs into an all-day weekend: quiet until Monday 07:00.
+    const quiet: QuietHours = {
+      windows: [
+        { start: "22:00", end: "07:00" },
+        { start: "00:00", end: "00:00", days: [0, 6] },
+      ],
+    };
+    expect(quietHoursEnd(quiet, at(16, 23))).toEqual(at(19, 7));
+  });
+
+  it("reads windows in the configured timezone", () => {
+    const tokyoNights: QuietHours = { windows: [{ start: "22:00", end: "07:00" }], timezone: "Asia/Tokyo" };
+    // 14:00Z is 23:00 in Tokyo; the window ends at 07:00 JST = 22:00Z.
+    expect(quietHoursEnd(tokyoNights, new Date(Date.UTC(2026, 0, 14, 14)))).toEqual(
+      new Date(Date.UTC(2026, 0, 14, 22)),
+    );
+  });
+});
+
+describe("validateQuietHours", () => {
+  it("accepts a well-formed config", () => {
+    const r = validateQuietHours({ windows: [{ start: "22:00", end: "7:00", days: [1, 5] }], action: "drop" });
+    expect(r.ok).toBe(true);
+    if (r.ok) expect(describeQuietHours(r.quietHours)).toBe("Mon/Fri 22:00-7:00 (drop)");
+  });
+
+  it("rejects malformed windows, actions and zones", () => {
+    expect(validateQuietHours({ windows: [] }).ok).toBe(false);
+    expect(validateQuietHours({ windows: [{ start: "25:00", end: "07:00" }] }).ok).toBe(false);
+    expect(validateQuietHours({ windows: [{ start: "22:00", end: "07:00", days: [7] }] }).ok).toBe(false);
+    expect(validateQuietHours({ windows: [{ start: "22:00", end: "07:00" }], action: "snooze" }).ok).toBe(false);
+    expect(validateQuietHours({ windows: [{ start: "22:00", end: "07:00" }], timezone: "Nowhere/Land" }).ok).toBe(false);
+  });
+});
@@ -1,5 +1,17 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { CronScheduler } from "../src/scheduler.js";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HeadlessStorage } from "../src/headless.js";
+import {
+  CronScheduler,
+  DRIFT_CHECK_MS,
+  describeLateness,
+  formatLateness,
+  MAX_TIMEOUT_MS,
+  WHEN_TIMEOUT_MS,
+} from "../src/scheduler.js";
+import { CronStorage } from "../src/storage.js";
 import type { CronJob } from "../src/types.js";
 
 // Mock the subagent runner: scheduler tests don't actually want to spin up an
@@ -15,6 +27,7 @@ const mockRunSubagentOnce = vi.mocked(runSubagentOnce);
 // In-memory CronStorage stand-in.
 function makeStorage(seedJobs: CronJob[] = []) {
   const jobs = new Map<string, CronJob>(seedJobs.map((j) => [j.id, j]));
+  let pausedUntil: string | undefined;
   return {
     hasJobWithName: (name: string) =>
       Array.from(jobs.values()).some((j) => j.name === name),
@@ -28,6 +41,12 @@ function makeStorage(seedJobs: CronJob[] = []) {
     },
     getJob: (id: string) => jobs.get(id),
     getAllJobs: () => Array.from(jobs.values()),
+    claimSlot: () => true,
+    getPausedUntil: () => pausedUntil,
+    setPausedUntil: (until: string | undefined) => {
+      pausedUntil = until;
+    },
+    watch: vi.fn(() => () => {}),
     getStorePath: () => ":memory:",
   } as any;
 }
@@ -622,10 +641,82 @@ describe("CronScheduler.validateSchedule", () => {
     if (r.ok) expect(r.schedule).toBe("0 0 9 * * *");
   });
 
-  it("cron: rejects 5-field expression with field-count error", () => {
+  it("cron: accepts a standard 5-field expression and persists the 6-field form", () => {
     const r = CronScheduler.validateSchedule("cron", "0 9 * * *");
+    expect(r.ok).toBe(true);
+    if (r.ok) expect(r.schedule).toBe("0 0 9 * * *");
+  });
+
+  it("cron: expands nicknames to their canonical 6-field form", () => {
+    const cases: Record<string, string> = {
+      "@hourly": "0 0 * * * *",
+      "@daily": "0 0 0 * * *",
+      "@weekly": "0 0 0 * * 0",
+      "@monthly": "0 0 0 1 * *",
+      "@yearly": "0 0 0 1 1 *",
+    };
+    for (const [nickname, expected] of Object.entries(cases)) {
+      const r = CronScheduler.validateSchedule("cron", nickname);
+      expect(r.ok).toBe(true);
+      if (r.ok) expect(r.schedule).toBe(expected);
+    }
+  });
+
+  it("cron: normalized 5-field forms humanize like their 6-field equivalents", () => {
+    const r = CronScheduler.validateSchedule("cron", "*/5 * * * *");
+    expect(r.ok).toBe(true);
+    if (r.ok) expect(CronScheduler.describeSchedule("cron", r.schedule)).toBe("every 5 min");
+  });
+
+  it("cron: rejects expressions with the wrong field count", () => {
+    const r = CronScheduler.validateSchedule("cron", "0 9 * *");
+    expect(r.ok).toBe(false);
+    if (!r.ok) expect(r.error).toContain("5 fields");
+  });
+
+  it("cron: rejects unknown nicknames", () => {
+    const r = CronScheduler.validateSchedule("cron", "@fortnightly");
+    expect(r.ok).toBe(false);
+  });
+});
+
+describe("CronScheduler.validateSchedule — timezone", () => {
+  it("rejects an unknown timezone", () => {
+    const r = CronScheduler.validateSchedule("cron", "0 0 9 * * *", "Mars/Olympus_Mons");
     expect(r.ok).toBe(false);
-    if (!r.ok) expect(r.error).toContain("6 fields");
+    if (!r.ok) expect(r.error).toContain("Unknown timezone");
+  });
+
+  it("cron: accepts a valid expression with an IANA zone", () => {
+    const r = CronScheduler.validateSchedule("cron", "0 0 9 * * *", "Europe/Berlin");
+    expect(r.ok).toBe(true);
+  });
+
+  it("once: reads a zone-less ISO timestamp as wall-clock time in the zone", () => {
+    // July → EDT (UTC-4).
+    const r = CronScheduler.validateSchedule("once", "2099-07-01T09:00:00", "America/New_York");
+    expect(r.ok).toBe(true);
+    if (r.ok) expect(r.schedule).toBe("2099-07-01T13:00:00.000Z");
+  });
+
+  it("once: an explicit offset wins over the job zone", () => {
+    const r = CronScheduler.validateSchedule("once", "2099-01-01T09:00:00Z", "Asia/Tokyo");
+    expect(r.ok).toBe(true);
+    if (r.ok) expect(r.schedule).toBe("2099-01-01T09:00:00.000Z");
+  });
+
+  it("cron: croner fires in the job zone, not the host's", () => {
+    const job = exampleJob({ type: "cron", schedule: "0 0 9 * * *", timezone: "Asia/Tokyo" });
+    const scheduler = new CronScheduler(makeStorage([job]), makePi(), makeCtx());
+    try {
+      scheduler.start();
+      const next = scheduler.getNextRun(job.id);
+      // 09:00 JST is 00:00 UTC year-round (no DST in Japan).
+      expect(next?.getUTCHours()).toBe(0);
+      expect(next?.getUTCMinutes()).toBe(0);
+    } finally {
+      scheduler.stop();
+    }
   });
 });
 
@@ -650,6 +741,15 @@ describe("CronScheduler.describeSchedule", () => {
     // Format depends on local TZ for the day/hour fields, so just assert shape.
     expect(out).toMatch(/^[A-Z][a-z]{2} \d{1,2} \d{2}:\d{2}$/);
   });
+
+  it("appends the zone and renders once-times in it", () => {
+    expect(CronScheduler.describeSchedule("cron", "0 0 0 * * *", "Europe/Berlin")).toBe(
+      "daily (Europe/Berlin)",
+    );
+    expect(
+      CronScheduler.describeSchedule("once", "2026-02-13T15:30:00.000Z", "Asia/Tokyo"),
+    ).toBe("Feb 14 00:30 (Asia/Tokyo)");
+  });
 });
 
 describe("CronScheduler — extensions/skills", () => {
@@ -696,3 +796,1975 @@ describe("CronScheduler — extensions/skills", () => {
     expect(options).toEqual({ extensions: false, skills: undefined });
   });
 });
+
+describe("CronScheduler — misfire catch-up on start()", () => {
+  // 10:30 local; the hourly cron below last ran at 06:45, so the 07:00, 08:00,
+  // 09:00 and 10:00 ticks were missed while no pi was open.
+  const NOW = new Date(2026, 0, 10, 10, 30, 0);
+  const LAST_RUN = new Date(2026, 0, 10, 6, 45, 0).toISOString();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    mockRunSubagentOnce.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function hourlyJob(overrides: Partial<CronJob> = {}): CronJob {
+    return exampleJob({
+      type: "cron",
+      schedule: "0 0 * * * *",
+      lastRun: LAST_RUN,
+      ...overrides,
+    });
+  }
+
+  it("countMissedRuns: counts cron ticks between lastRun and now", () => {
+    expect(CronScheduler.countMissedRuns(hourlyJob(), NOW)).toBe(4);
+    expect(CronScheduler.countMissedRuns(hourlyJob(), NOW, 2)).toBe(2);
+  });
+
+  it("countMissedRuns: falls back to createdAt for never-run jobs", () => {
+    const job = hourlyJob({ lastRun: undefined, createdAt: new Date(2026, 0, 10, 8, 30).toISOString() });
+    expect(CronScheduler.countMissedRuns(job, NOW)).toBe(2);
+  });
+
+  it("countMissedRuns: counts whole intervals for interval jobs", () => {
+    const job = exampleJob({ type: "interval", schedule: "1h", intervalMs: 60 * 60 * 1000, lastRun: LAST_RUN });
+    expect(CronScheduler.countMissedRuns(job, NOW)).toBe(3);
+  });
+
+  it("countMissedRuns: counts the anchored cadence's ticks for anchored interval jobs", () => {
+    const anchorAt = new Date(2026, 0, 10, 6, 0, 0).toISOString();
+    const job = exampleJob({ type: "interval", schedule: "1h", intervalMs: 60 * 60 * 1000, lastRun: LAST_RUN, anchorAt });
+    // 07:00, 08:00, 09:00 and 10:00 — not just three whole hours since 06:45.
+    expect(CronScheduler.countMissedRuns(job, NOW)).toBe(4);
+  });
+
+  it("skip (default) fires nothing on start", () => {
+    const pi = makePi();
+    const scheduler = new CronScheduler(makeStorage([hourlyJob()]), pi, makeCtx());
+    try {
+      scheduler.start();
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("runOnce fires a single catch-up run through executeJob", () => {
+    const pi = makePi();
+    const storage = makeStorage([hourlyJob({ misfirePolicy: "runOnce" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+      expect(storage.getJob("job-1").runCount).toBe(1);
+      // Still armed for future ticks.
+      expect((scheduler as any).jobs.has("job-1")).toBe(true);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("runAll replays each missed run, capped by misfireLimit", () => {
+    const pi = makePi();
+    const scheduler = new CronScheduler(
+      makeStorage([hourlyJob({ misfirePolicy: "runAll" })]),
+      pi,
+      makeCtx(),
+    );
+    try {
+      scheduler.start();
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(4);
+    } finally {
+      scheduler.stop();
+    }
+
+    const capped = makePi();
+    const cappedScheduler = new CronScheduler(
+      makeStorage([hourlyJob({ misfirePolicy: "runAll", misfireLimit: 2 })]),
+      capped,
+      makeCtx(),
+    );
+    try {
+      cappedScheduler.start();
+      expect(capped.sendUserMessage).toHaveBeenCalledTimes(2);
+    } finally {
+      cappedScheduler.stop();
+    }
+  });
+
+  it("runAll claims each replayed run under its missed tick", () => {
+    const storage = makeStorage([hourlyJob({ misfirePolicy: "runAll" })]);
+    const claimSlot = vi.fn(() => true);
+    storage.claimSlot = claimSlot;
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    try {
+      scheduler.start();
+      expect(claimSlot.mock.calls).toEqual(
+        [7, 8, 9, 10].map((hour) => ["job-1", new Date(2026, 0, 10, hour, 0, 0).getTime()]),
+      );
+      // Catch-up at start isn't sleep recovery: no lateness is recorded.
+      expect(storage.getJob("job-1").lateByMs).toBeUndefined();
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("a missed one-shot with runOnce fires once and is disabled instead of erroring", () => {
+    const pi = makePi();
+    const job = exampleJob({
+      type: "once",
+      schedule: new Date(2026, 0, 10, 9, 0).toISOString(),
+      createdAt: new Date(2026, 0, 9, 12, 0).toISOString(),
+      misfirePolicy: "runOnce",
+    });
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+      expect(storage.getJob("job-1").enabled).toBe(false);
+      expect(storage.getJob("job-1").lastStatus).toBe("success");
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("a missed one-shot caught up during a pause stays enabled until its deferred fire", () => {
+    const pi = makePi();
+    const job = exampleJob({
+      type: "once",
+      schedule: new Date(2026, 0, 10, 9, 0).toISOString(),
+      createdAt: new Date(2026, 0, 9, 12, 0).toISOString(),
+      misfirePolicy: "runOnce",
+    });
+    const storage = makeStorage([job]);
+    storage.setPausedUntil(new Date(2026, 0, 10, 11, 0).toISOString());
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+      expect(storage.getJob("job-1")).toMatchObject({ enabled: true, lastStatus: "deferred" });
+
+      storage.setPausedUntil(undefined);
+      vi.advanceTimersByTime(30 * 60_000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+      expect(storage.getJob("job-1").enabled).toBe(false);
+    } finally {
+      scheduler.stop();
+    }
+  });
+});
+
+describe("CronScheduler — run limits (maxRuns / startAt / endAt)", () => {
+  const NOW = new Date(2026, 0, 10, 10, 30, 0);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function intervalJob(overrides: Partial<CronJob> = {}): CronJob {
+    return exampleJob({
+      type: "interval",
+      schedule: "10m",
+      intervalMs: 10 * 60 * 1000,
+      createdAt: NOW.toISOString(),
+      ...overrides,
+    });
+  }
+
+  it("checkRunLimits: reports notStarted before startAt and exhausted after maxRuns/endAt", () => {
+    expect(CronScheduler.checkRunLimits(intervalJob(), NOW)).toBeNull();
+    expect(
+      CronScheduler.checkRunLimits(intervalJob({ startAt: new Date(2026, 0, 11).toISOString() }), NOW),
+    ).toBe("notStarted");
+    expect(CronScheduler.checkRunLimits(intervalJob({ maxRuns: 2, runCount: 2 }), NOW)).toBe(
+      "exhausted",
+    );
+    expect(
+      CronScheduler.checkRunLimits(intervalJob({ endAt: new Date(2026, 0, 10, 9).toISOString() }), NOW),
+    ).toBe("exhausted");
+  });
+
+  it("disables the job after maxRuns successful fires", () => {
+    const pi = makePi();
+    const storage = makeStorage([intervalJob({ maxRuns: 3 })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(3);
+      expect(storage.getJob("job-1").runCount).toBe(3);
+      expect(storage.getJob("job-1").enabled).toBe(false);
+      expect((scheduler as any).intervals.has("job-1")).toBe(false);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("skips interval ticks before startAt", () => {
+    const pi = makePi();
+    const startAt = new Date(NOW.getTime() + 25 * 60 * 1000).toISOString();
+    const storage = makeStorage([intervalJob({ startAt })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(20 * 60 * 1000);
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("disables the job at the first tick past endAt", () => {
+    const pi = makePi();
+    const endAt = new Date(NOW.getTime() + 15 * 60 * 1000).toISOString();
+    const storage = makeStorage([intervalJob({ endAt })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(20 * 60 * 1000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+      expect(storage.getJob("job-1").enabled).toBe(false);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("start() disables a job that expired while no pi was open instead of arming it", () => {
+    const storage = makeStorage([
+      intervalJob({ endAt: new Date(2026, 0, 9).toISOString() }),
+    ]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    try {
+      scheduler.start();
+      expect(storage.getJob("job-1").enabled).toBe(false);
+      expect((scheduler as any).intervals.has("job-1")).toBe(false);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("getNextRun hides a cron tick that falls after endAt", () => {
+    const endAt = new Date(2026, 0, 10, 10, 45).toISOString();
+    const storage = makeStorage([
+      exampleJob({ type: "cron", schedule: "0 0 * * * *", endAt }),
+    ]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    try {
+      scheduler.start();
+      expect(scheduler.getNextRun("job-1")).toBeNull();
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("runAll catch-up never replays more than maxRuns has left", () => {
+    const pi = makePi();
+    const storage = makeStorage([
+      exampleJob({
+        type: "cron",
+        schedule: "0 0 * * * *",
+        lastRun: new Date(2026, 0, 10, 6, 45).toISOString(),
+        misfirePolicy: "runAll",
+        maxRuns: 5,
+        runCount: 3,
+      }),
+    ]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(2);
+      expect(storage.getJob("job-1").enabled).toBe(false);
+      expect((scheduler as any).jobs.has("job-1")).toBe(false);
+    } finally {
+      scheduler.stop();
+    }
+  });
+});
+
+describe("CronScheduler — quiet hours", () => {
+  // 23:30 local, inside a 22:00-07:00 quiet window that ends at 07:00 tomorrow.
+  const NOW = new Date(2026, 0, 14, 23, 30, 0);
+  const NIGHTS = { windows: [{ start: "22:00", end: "07:00" }] };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function everyTenMinutes(overrides: Partial<CronJob> = {}): CronJob {
+    return exampleJob({
+      type: "interval",
+      schedule: "10m",
+      intervalMs: 10 * 60 * 1000,
+      ...overrides,
+    });
+  }
+
+  it("never replays fires quiet hours dropped when catching up after a restart", () => {
+    const pi = makePi();
+    const job = exampleJob({
+      type: "cron",
+      schedule: "0 0 * * * *",
+      misfirePolicy: "runAll",
+      quietHours: { ...NIGHTS, action: "drop" },
+      lastRun: new Date(2026, 0, 14, 23, 0).toISOString(),
+    });
+    const storage = makeStorage([job]);
+    const first = new CronScheduler(storage, pi, makeCtx());
+    first.start();
+    // 00:00 to 06:00 land in the window and are dropped; then pi closes.
+    vi.advanceTimersByTime(7 * 60 * 60 * 1000);
+    first.stop();
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1").lastTick).toBe(new Date(2026, 0, 15, 6, 0).toISOString());
+
+    // Reopened at 08:30: only the 07:00 and 08:00 ticks were missed.
+    vi.setSystemTime(new Date(2026, 0, 15, 8, 30));
+    const second = new CronScheduler(storage, pi, makeCtx());
+    second.start();
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(2);
+    second.stop();
+  });
+
+  it("defers fires to the end of a global window, coalescing repeats", () => {
+    const pi = makePi();
+    // 7m so no regular tick lands exactly on 07:00 next to the deferred fire.
+    const storage = makeStorage([everyTenMinutes({ schedule: "7m", intervalMs: 7 * 60 * 1000 })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx(), () => ({ quietHours: NIGHTS }));
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+      expect(storage.getJob("job-1").lastStatus).toBe("deferred");
+      expect(storage.getJob("job-1").deferredUntil).toBe(new Date(2026, 0, 15, 7).toISOString());
+
+      // 07:00 — one deferred fire, not one per missed tick.
+      vi.advanceTimersByTime(6.5 * 60 * 60 * 1000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+      expect(storage.getJob("job-1").lastStatus).toBe("success");
+      expect(storage.getJob("job-1").deferredUntil).toBeUndefined();
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("drops fires when the job's own window says so", () => {
+    const pi = makePi();
+    const storage = makeStorage([everyTenMinutes({ quietHours: { ...NIGHTS, action: "drop" } })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+      expect(storage.getJob("job-1").lastStatus).toBe("dropped");
+      expect((scheduler as any).deferred.size).toBe(0);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("quietHours: false opts a job out of the global window", () => {
+    const pi = makePi();
+    const storage = makeStorage([everyTenMinutes({ quietHours: false })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx(), () => ({ quietHours: NIGHTS }));
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("a deferred one-shot job fires at the window's end and is disabled then", () => {
+    const pi = makePi();
+    const storage = makeStorage([
+      exampleJob({ type: "once", schedule: new Date(2026, 0, 15, 1).toISOString() }),
+    ]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx(), () => ({ quietHours: NIGHTS }));
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+      expect(storage.getJob("job-1").enabled).toBe(true);
+      expect(storage.getJob("job-1").lastStatus).toBe("deferred");
+
+      vi.advanceTimersByTime(6 * 60 * 60 * 1000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+      expect(storage.getJob("job-1").enabled).toBe(false);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("removing a job cancels its deferred fire", () => {
+    const pi = makePi();
+    const storage = makeStorage([everyTenMinutes()]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx(), () => ({ quietHours: NIGHTS }));
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      scheduler.removeJob("job-1");
+      vi.advanceTimersByTime(8 * 60 * 60 * 1000);
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    } finally {
+      scheduler.stop();
+    }
+  });
+});
+
+describe("CronScheduler — overlap policy", () => {
+  beforeEach(() => {
+    mockRunSubagentOnce.mockReset();
+  });
+
+  // Each run waits until the test resolves it (or its signal aborts).
+  function controllableRuns() {
+    const runs: Array<{ signal: AbortSignal; resolve: (r: any) => void }> = [];
+    mockRunSubagentOnce.mockImplementation(async (_ctx, _prompt, _model, signal) => {
+      return new Promise((resolve) => {
+        runs.push({ signal: signal!, resolve });
+        signal?.addEventListener("abort", () => resolve({ ok: false, error: "aborted" }));
+      });
+    });
+    return runs;
+  }
+
+  function fire(scheduler: CronScheduler, job: CronJob) {
+    return (scheduler as any).executeJob(job);
+  }
+
+  it("allow (default) runs fires concurrently", async () => {
+    const runs = controllableRuns();
+    const job = exampleJob({ type: "cron", schedule: "0 * * * * *", model: "haiku" });
+    const scheduler = new CronScheduler(makeStorage([job]), makePi(), makeCtx());
+    fire(scheduler, job);
+    fire(scheduler, job);
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    expect((scheduler as any).activeSubagents.get("job-1").size).toBe(2);
+    scheduler.stop();
+  });
+
+  it("skip drops the fire and counts it in skippedRuns", async () => {
+    const runs = controllableRuns();
+    const job = exampleJob({ type: "cron", schedule: "0 * * * * *", model: "haiku", overlap: "skip" });
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    fire(scheduler, job);
+    await vi.waitFor(() => expect(runs).toHaveLength(1));
+    fire(scheduler, job);
+    fire(scheduler, job);
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1").skippedRuns).toBe(2);
+    expect(storage.getJob("job-1").lastStatus).toBe("running");
+    scheduler.stop();
+  });
+
+  it("queue runs one coalesced fire after the in-flight run finishes", async () => {
+    const runs = controllableRuns();
+    const job = exampleJob({ type: "cron", schedule: "0 * * * * *", model: "haiku", overlap: "queue" });
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    fire(scheduler, job);
+    await vi.waitFor(() => expect(runs).toHaveLength(1));
+    fire(scheduler, job);
+    fire(scheduler, job);
+    expect(storage.getJob("job-1").skippedRuns).toBe(1);
+
+    runs[0].resolve({ ok: true, text: "first" });
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+    runs[1].resolve({ ok: true, text: "second" });
+    await vi.waitFor(() => expect(storage.getJob("job-1").runCount).toBe(2));
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("replace aborts the in-flight run and lets only the new one report", async () => {
+    const runs = controllableRuns();
+    const job = exampleJob({ type: "cron", schedule: "0 * * * * *", model: "haiku", overlap: "replace" });
+    const storage = makeStorage([job]);
+    const pi = makePi();
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    fire(scheduler, job);
+    await vi.waitFor(() => expect(runs).toHaveLength(1));
+    fire(scheduler, job);
+    expect(runs[0].signal.aborted).toBe(true);
+    await vi.waitFor(() => expect(runs).toHaveLength(2));
+
+    runs[1].resolve({ ok: true, text: "fresh" });
+    await vi.waitFor(() => expect(storage.getJob("job-1").lastStatus).toBe("success"));
+    // Two start markers + one done marker; the aborted run posts nothing.
+    const modes = pi.sendMessage.mock.calls.map((c: any[]) => c[0].details.mode);
+    expect(modes).toEqual(["subagent_start", "subagent_start", "subagent_done"]);
+    expect((scheduler as any).activeSubagents.size).toBe(0);
+  });
+});
+
+describe("CronScheduler — subagent retries", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockRunSubagentOnce.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function modes(pi: any) {
+    return pi.sendMessage.mock.calls.map((c: any[]) => c[0].details.mode);
+  }
+
+  it("retries a failed run with doubling backoff and reports success once", async () => {
+    mockRunSubagentOnce
+      .mockResolvedValueOnce({ ok: false, error: "429 rate limited" })
+      .mockResolvedValueOnce({ ok: false, error: "503 overloaded" })
+      .mockResolvedValueOnce({ ok: true, text: "done" });
+    const pi = makePi();
+    const job = exampleJob({ model: "haiku", retry: { attempts: 3, backoff: "10s" } });
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+
+    (scheduler as any).executeJobInSubagent(job);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(storage.getJob("job-1").retryAttempt).toBe(1);
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(2);
+    expect(storage.getJob("job-1").retryAttempt).toBe(2);
+
+    // Second retry waits twice as long.
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(3);
+
+    expect(storage.getJob("job-1").lastStatus).toBe("success");
+    expect(storage.getJob("job-1").retryAttempt).toBeUndefined();
+    expect(modes(pi)).toEqual(["subagent_start", "subagent_start", "subagent_start", "subagent_done"]);
+    expect(pi.sendMessage.mock.calls[2][0].content[0].text).toContain("retry 2/3");
+  });
+
+  it("posts the error marker only after the last retry failed", async () => {
+    mockRunSubagentOnce.mockResolvedValue({ ok: false, error: "boom" });
+    const pi = makePi();
+    const job = exampleJob({ model: "haiku", retry: { attempts: 2 } });
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+
+    (scheduler as any).executeJobInSubagent(job);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(modes(pi)).not.toContain("subagent_error");
+    expect(storage.getJob("job-1").lastStatus).toBe("running");
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(3);
+    expect(modes(pi)).toEqual(["subagent_start", "subagent_start", "subagent_start", "subagent_error"]);
+    expect(pi.sendMessage.mock.calls[3][0].details.retry).toEqual({ attempt: 2, attempts: 2 });
+    expect(storage.getJob("job-1").lastStatus).toBe("error");
+  });
+
+  it("stop() during the backoff wait abandons the retry", async () => {
+    mockRunSubagentOnce.mockResolvedValue({ ok: false, error: "boom" });
+    const pi = makePi();
+    const job = exampleJob({ model: "haiku", retry: { attempts: 3 } });
+    const scheduler = new CronScheduler(makeStorage([job]), pi, makeCtx());
+
+    (scheduler as any).executeJobInSubagent(job);
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(1);
+    expect(modes(pi)).toEqual(["subagent_start"]);
+  });
+});
+
+describe("CronScheduler — subagent timeout", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockRunSubagentOnce.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // A subagent stuck in a tool loop: only its abort signal ends it.
+  function stuckRun() {
+    const signals: AbortSignal[] = [];
+    mockRunSubagentOnce.mockImplementation(async (_ctx, _prompt, _model, signal) => {
+      signals.push(signal!);
+      return new Promise((resolve) => {
+        signal?.addEventListener("abort", () => resolve({ ok: false, error: "aborted" }));
+      });
+    });
+    return signals;
+  }
+
+  it("aborts the run at timeoutMs, records timeout and reports elapsed time", async () => {
+    const signals = stuckRun();
+    const pi = makePi();
+    const job = exampleJob({ model: "haiku", timeoutMs: 5 * 60_000 });
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+
+    (scheduler as any).executeJobInSubagent(job);
+    await vi.advanceTimersByTimeAsync(5 * 60_000 - 1);
+    expect(signals[0].aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(signals[0].aborted).toBe(true);
+
+    await vi.waitFor(() => expect(storage.getJob("job-1").lastStatus).toBe("timeout"));
+    const marker = pi.sendMessage.mock.calls[1][0];
+    expect(marker.details.mode).toBe("subagent_error");
+    expect(marker.details.timedOut).toBe(true);
+    expect(marker.details.elapsedMs).toBe(5 * 60_000);
+    expect(marker.details.error).toContain("5m 0s timeout");
+    expect((scheduler as any).activeSubagents.size).toBe(0);
+  });
+
+  it("falls back to the defaultTimeoutMs setting; timeoutMs 0 opts out", async () => {
+    const signals = stuckRun();
+    const settings = () => ({ defaultTimeoutMs: 60_000 });
+    const timed = exampleJob({ model: "haiku" });
+    const scheduler = new CronScheduler(makeStorage([timed]), makePi(), makeCtx(), settings);
+    (scheduler as any).executeJobInSubagent(timed);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(signals[0].aborted).toBe(true);
+
+    const unbounded = exampleJob({ model: "haiku", timeoutMs: 0 });
+    const other = new CronScheduler(makeStorage([unbounded]), makePi(), makeCtx(), settings);
+    (other as any).executeJobInSubagent(unbounded);
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(signals[1].aborted).toBe(false);
+    other.stop();
+  });
+
+  it("a timeout stops pending retries", async () => {
+    mockRunSubagentOnce.mockResolvedValue({ ok: false, error: "boom" });
+    const pi = makePi();
+    const job = exampleJob({ model: "haiku", timeoutMs: 45_000, retry: { attempts: 3, backoff: "30s" } });
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+
+    (scheduler as any).executeJobInSubagent(job);
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    // First run + the 30s retry; the 60s backoff for the next one is cut short.
+    expect(mockRunSubagentOnce).toHaveBeenCalledTimes(2);
+    expect(storage.getJob("job-1").lastStatus).toBe("timeout");
+  });
+});
+
+describe("CronScheduler — job chaining (after)", () => {
+  beforeEach(() => {
+    mockRunSubagentOnce.mockReset();
+  });
+
+  // pi whose events actually reach listeners, so the scheduler hears its own
+  // cron:change events the way it does in a real session.
+  function makeBusPi() {
+    const listeners = new Set<(event: unknown) => void>();
+    return {
+      sendMessage: vi.fn(),
+      sendUserMessage: vi.fn(),
+      events: {
+        emit: vi.fn((_name: string, event: unknown) => {
+          for (const listener of [...listeners]) listener(event);
+        }),
+        on: vi.fn((_name: string, listener: (event: unknown) => void) => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        }),
+      },
+    } as any;
+  }
+
+  const upstream = (overrides: Partial<CronJob> = {}) =>
+    exampleJob({ id: "up", name: "collect", type: "cron", schedule: "0 0 * * * *", prompt: "collect", ...overrides });
+  const downstream = (overrides: Partial<CronJob> = {}) =>
+    exampleJob({ id: "down", name: "summarise", type: "after", schedule: "up", prompt: "summarise", ...overrides });
+
+  it("fires a chained job when its upstream run succeeds", () => {
+    const pi = makeBusPi();
+    const storage = makeStorage([upstream(), downstream()]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      (scheduler as any).executeJob(storage.getJob("up"));
+      expect(pi.sendUserMessage.mock.calls.map((c: any[]) => c[0])).toEqual(["collect", "summarise"]);
+      expect(storage.getJob("down").runCount).toBe(1);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("passes the upstream subagent output into the downstream prompt", async () => {
+    mockRunSubagentOnce.mockResolvedValue({ ok: true, text: "cpu 42%" });
+    const pi = makeBusPi();
+    const storage = makeStorage([upstream({ model: "haiku" }), downstream({ passOutput: true })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      (scheduler as any).executeJob(storage.getJob("up"));
+      await vi.waitFor(() => expect(pi.sendUserMessage).toHaveBeenCalledTimes(1));
+      expect(pi.sendUserMessage.mock.calls[0][0]).toBe(
+        'summarise\n\nOutput of upstream job "collect":\ncpu 42%',
+      );
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("honours chainOn: onFailure fires only on a failed upstream run", async () => {
+    mockRunSubagentOnce.mockResolvedValueOnce({ ok: true, text: "fine" });
+    mockRunSubagentOnce.mockResolvedValueOnce({ ok: false, error: "boom" });
+    const pi = makeBusPi();
+    const storage = makeStorage([upstream({ model: "haiku" }), downstream({ chainOn: "onFailure" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      (scheduler as any).executeJob(storage.getJob("up"));
+      await vi.waitFor(() => expect(storage.getJob("up").lastStatus).toBe("success"));
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+
+      (scheduler as any).executeJob(storage.getJob("up"));
+      await vi.waitFor(() => expect(pi.sendUserMessage).toHaveBeenCalledTimes(1));
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("stop() unsubscribes, so a stopped scheduler fires no chained jobs", () => {
+    const pi = makeBusPi();
+    const storage = makeStorage([upstream(), downstream()]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    scheduler.stop();
+    pi.events.emit("cron:change", { type: "fire", job: storage.getJob("up"), outcome: "success" });
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("CronScheduler — watch jobs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const watchJob = (overrides: Partial<CronJob> = {}) =>
+    exampleJob({
+      id: "w1",
+      name: "review",
+      type: "watch",
+      schedule: "src/**/*.ts",
+      watch: ["src/**/*.ts"],
+      prompt: "review the changes",
+      ...overrides,
+    });
+
+  it("arms a watcher on start and fires with the changed paths appended", async () => {
+    const fileWatch = await import("../src/file-watch.js");
+    const close = vi.fn();
+    let onChange: ((paths: string[]) => void) | undefined;
+    const spy = vi.spyOn(fileWatch, "watchFiles").mockImplementation((_cwd, _patterns, _ms, cb) => {
+      onChange = cb;
+      return close;
+    });
+    const pi = makePi();
+    const storage = makeStorage([watchJob({ debounceMs: 500 })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+
+    scheduler.start();
+    expect(spy).toHaveBeenCalledWith("/tmp", ["src/**/*.ts"], 500, expect.any(Function));
+
+    onChange?.(["src/a.ts", "src/ui/b.ts"]);
+    expect(pi.sendUserMessage).toHaveBeenCalledWith(
+      "review the changes\n\nChanged files:\n- src/a.ts\n- src/ui/b.ts",
+      { deliverAs: "followUp" },
+    );
+    expect(storage.getJob("w1").runCount).toBe(1);
+    expect(scheduler.getNextRun("w1")).toBeNull();
+
+    scheduler.stop();
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes the watcher when the job is disabled or removed", async () => {
+    const fileWatch = await import("../src/file-watch.js");
+    const close = vi.fn();
+    vi.spyOn(fileWatch, "watchFiles").mockReturnValue(close);
+    const storage = makeStorage([watchJob()]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+
+    scheduler.start();
+    scheduler.updateJob("w1", { ...storage.getJob("w1"), enabled: false });
+    expect(close).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it("caps the changed-path list", () => {
+    const paths = Array.from({ length: 53 }, (_, i) => `f${i}.ts`);
+    const text = CronScheduler.describeChangedPaths(paths);
+    expect(text.split("\n")).toHaveLength(52);
+    expect(text).toContain("- … and 3 more");
+  });
+
+  it("never counts missed runs for a watch job", () => {
+    const job = watchJob({ createdAt: "2020-01-01T00:00:00Z", misfirePolicy: "runAll" });
+    expect(CronScheduler.countMissedRuns(job, new Date())).toBe(0);
+  });
+});
+
+describe("CronScheduler — idle jobs", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const idleJob = (overrides: Partial<CronJob> = {}) =>
+    exampleJob({ id: "i1", name: "recap", type: "idle", schedule: "20m", intervalMs: 20 * 60_000, prompt: "recap", ...overrides });
+
+  it("fires once the idle threshold is crossed and not again without new activity", () => {
+    const pi = makePi();
+    const storage = makeStorage([idleJob()]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      expect(scheduler.getNextRun("i1")?.getTime()).toBe(Date.now() + 20 * 60_000);
+
+      vi.advanceTimersByTime(20 * 60_000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+      expect(scheduler.getNextRun("i1")).toBeNull();
+
+      // The fired prompt's own agent run doesn't re-arm the job.
+      scheduler.noteAgentStart();
+      scheduler.noteAgentEnd();
+      vi.advanceTimersByTime(2 * 60 * 60_000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+
+      // New user activity does.
+      scheduler.noteActivity();
+      vi.advanceTimersByTime(20 * 60_000);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(2);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("doesn't count down while the agent is running and restarts the countdown when it ends", () => {
+    const pi = makePi();
+    const storage = makeStorage([idleJob()]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    try {
+      scheduler.start();
+      vi.advanceTimersByTime(15 * 60_000);
+      scheduler.noteActivity();
+      scheduler.noteAgentStart();
+      vi.advanceTimersByTime(60 * 60_000);
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+
+      scheduler.noteAgentEnd();
+      vi.advanceTimersByTime(20 * 60_000 - 1);
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    } finally {
+      scheduler.stop();
+    }
+  });
+
+  it("leaves disabled idle jobs and stopped schedulers alone", () => {
+    const pi = makePi();
+    const storage = makeStorage([idleJob({ enabled: false })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    scheduler.noteActivity();
+    vi.advanceTimersByTime(60 * 60_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+
+    storage.updateJob("i1", { enabled: true });
+    scheduler.updateJob("i1", storage.getJob("i1"));
+    scheduler.stop();
+    vi.advanceTimersByTime(60 * 60_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe("CronScheduler — lifecycle jobs", () => {
+  beforeEach(() => {
+    mockRunSubagentOnce.mockReset();
+  });
+
+  const lifecycleJob = (id: string, type: CronJob["type"], overrides: Partial<CronJob> = {}) =>
+    exampleJob({ id, name: id, type, schedule: type, prompt: `${id} prompt`, ...overrides });
+
+  it("fires only the enabled jobs of the given trigger, inline", async () => {
+    const pi = makePi();
+    const storage = makeStorage([
+      lifecycleJob("start", "onSessionStart"),
+      lifecycleJob("resume", "onResume"),
+      lifecycleJob("off", "onSessionStart", { enabled: false }),
+      lifecycleJob("other", "onSessionStart", { session: "someone-else" }),
+    ]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    // Nothing is armed on start: lifecycle jobs wait for their event.
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+
+    await scheduler.fireLifecycleJobs("onSessionStart");
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(pi.sendUserMessage).toHaveBeenCalledWith("start prompt", { deliverAs: "followUp" });
+    expect(storage.getJob("start").runCount).toBe(1);
+    scheduler.stop();
+  });
+
+  it("waits for onShutdown subagent runs before returning", async () => {
+    let finish: (value: { ok: true; text: string }) => void = () => {};
+    mockRunSubagentOnce.mockReturnValue(new Promise((resolve) => (finish = resolve)) as any);
+    const storage = makeStorage([lifecycleJob("bye", "onShutdown", { model: "haiku" })]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    scheduler.start();
+
+    let done = false;
+    const shutdown = scheduler.fireLifecycleJobs("onShutdown").then(() => {
+      done = true;
+    });
+    await Promise.resolve();
+    expect(done).toBe(false);
+
+    finish({ ok: true, text: "saved notes" });
+    await shutdown;
+    expect(storage.getJob("bye").lastStatus).toBe("success");
+    scheduler.stop();
+  });
+
+  it("doesn't wait on shutdown for subagent runs other jobs started", async () => {
+    mockRunSubagentOnce.mockReturnValue(new Promise(() => {}) as any);
+    const storage = makeStorage([
+      lifecycleJob("busy", "cron", { schedule: "0 0 * * * *", model: "haiku" }),
+      lifecycleJob("bye", "onShutdown"),
+    ]);
+    const pi = makePi();
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    scheduler.runNow("busy");
+    await vi.waitFor(() => expect(mockRunSubagentOnce).toHaveBeenCalled());
+
+    await scheduler.fireLifecycleJobs("onShutdown");
+    expect(pi.sendUserMessage).toHaveBeenCalledWith("bye prompt", { deliverAs: "followUp" });
+    expect(storage.getJob("busy").lastStatus).toBe("running");
+    scheduler.stop();
+  });
+
+  it("describes lifecycle schedules", () => {
+    expect(CronScheduler.describeSchedule("onSessionStart", "onSessionStart")).toBe("on session start");
+    expect(CronScheduler.describeSchedule("onShutdown", "onShutdown")).toBe("on shutdown");
+  });
+});
+
+describe("CronScheduler — git jobs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const gitJob = (overrides: Partial<CronJob> = {}) =>
+    exampleJob({ id: "g1", name: "review", type: "git", schedule: "main", ...overrides });
+
+  async function armWithSpy(job: CronJob) {
+    const gitWatch = await import("../src/git-watch.js");
+    const close = vi.fn();
+    let onChange: ((change: { branch: string; oldSha: string; newSha: string }) => void) | undefined;
+    const spy = vi.spyOn(gitWatch, "watchGit").mockImplementation((_cwd, _branch, cb) => {
+      onChange = cb;
+      return close;
+    });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    return { pi, storage, scheduler, spy, close, fire: (c: any) => onChange?.(c) };
+  }
+
+  it("fills the template variables into the delivered prompt", async () => {
+    const { pi, scheduler, spy, close, fire } = await armWithSpy(
+      gitJob({ prompt: "review git diff {{oldSha}}..{{newSha}} on {{branch}}" }),
+    );
+    expect(spy).toHaveBeenCalledWith("/tmp", "main", expect.any(Function));
+
+    fire({ branch: "main", oldSha: "aaa", newSha: "bbb" });
+    expect(pi.sendUserMessage).toHaveBeenCalledWith("review git diff aaa..bbb on main", {
+      deliverAs: "followUp",
+    });
+
+    scheduler.stop();
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it("appends a summary when the prompt has no placeholders", async () => {
+    const { pi, scheduler, fire } = await armWithSpy(gitJob({ prompt: "review the new commits" }));
+    fire({ branch: "main", oldSha: "a".repeat(40), newSha: "b".repeat(40) });
+    expect(pi.sendUserMessage.mock.calls[0][0]).toBe(
+      "review the new commits\n\nGit: main moved from aaaaaaa to bbbbbbb",
+    );
+    scheduler.stop();
+  });
+
+  it("closes the watcher when the job is paused", async () => {
+    const { storage, scheduler, close } = await armWithSpy(gitJob());
+    scheduler.updateJob("g1", { ...storage.getJob("g1"), enabled: false });
+    expect(close).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+});
+
+describe("CronScheduler — when preconditions", () => {
+  it("skips the fire and records stderr when the command exits non-zero", async () => {
+    const pi = makePi();
+    const job = exampleJob({ when: "echo 'tests pass' >&2; exit 1" });
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+
+    await (scheduler as any).executeJob(job);
+
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1")).toMatchObject({ lastStatus: "skipped", lastSkipReason: "tests pass", runCount: 0 });
+    expect(pi.events.emit).toHaveBeenCalledWith(
+      "cron:change",
+      expect.objectContaining({ type: "update", job: expect.objectContaining({ lastStatus: "skipped" }) }),
+    );
+  });
+
+  it("falls back to the exit code when the command prints nothing", async () => {
+    const job = exampleJob({ when: "exit 3" });
+    const storage = makeStorage([job]);
+    await (new CronScheduler(storage, makePi(), makeCtx()) as any).executeJob(job);
+    expect(storage.getJob("job-1").lastSkipReason).toBe("exited with code 3");
+  });
+
+  it("fires when a successful command prints more than any output buffer holds", async () => {
+    const pi = makePi();
+    const job = exampleJob({ when: "head -c 3000000 /dev/zero; head -c 3000000 /dev/zero >&2" });
+    const storage = makeStorage([job]);
+    await (new CronScheduler(storage, pi, makeCtx()) as any).executeJob(job);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1").lastStatus).toBe("success");
+  });
+
+  // Reads /proc: a killed orphan may linger as a zombie until something reaps it.
+  const isRunning = (pid: number) => {
+    try {
+      return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, "utf-8"));
+    } catch {
+      return false;
+    }
+  };
+
+  it.skipIf(process.platform !== "linux")("kills everything the command started when it times out", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    const dir = mkdtempSync(join(tmpdir(), "pi-schedule-when-"));
+    const pidFile = join(dir, "pid");
+    try {
+      const job = exampleJob({ when: `sleep 60 & echo $! > ${pidFile}; wait` });
+      const storage = makeStorage([job]);
+      const firing = (new CronScheduler(storage, makePi(), makeCtx()) as any).executeJob(job);
+      while (!readFileSync(pidFile, { encoding: "utf-8", flag: "a+" }).trim()) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      const pid = Number(readFileSync(pidFile, "utf-8"));
+      vi.advanceTimersByTime(WHEN_TIMEOUT_MS);
+      await firing;
+      expect(storage.getJob("job-1").lastSkipReason).toBe("timed out after 30s");
+      vi.useRealTimers();
+      await vi.waitFor(() => expect(isRunning(pid)).toBe(false));
+    } finally {
+      vi.useRealTimers();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("fires normally and clears the last skip reason when the command succeeds", async () => {
+    const pi = makePi();
+    const job = exampleJob({ when: "true", lastStatus: "skipped", lastSkipReason: "old" });
+    const storage = makeStorage([job]);
+    await (new CronScheduler(storage, pi, makeCtx()) as any).executeJob(job);
+    expect(pi.sendUserMessage).toHaveBeenCalledWith("do the thing", { deliverAs: "followUp" });
+    expect(storage.getJob("job-1")).toMatchObject({ lastStatus: "success", runCount: 1 });
+    expect(storage.getJob("job-1").lastSkipReason).toBeUndefined();
+  });
+});
+
+describe("CronScheduler — delivery modes", () => {
+  function busyScheduler(job: CronJob) {
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.noteAgentStart();
+    return { pi, storage, scheduler };
+  }
+
+  it("delivers as a follow-up by default, and as a steer with delivery 'steer'", () => {
+    const followUp = busyScheduler(exampleJob());
+    (followUp.scheduler as any).executeJob(exampleJob());
+    expect(followUp.pi.sendUserMessage).toHaveBeenCalledWith("do the thing", { deliverAs: "followUp" });
+
+    const steer = busyScheduler(exampleJob({ delivery: "steer" }));
+    (steer.scheduler as any).executeJob(exampleJob({ delivery: "steer" }));
+    expect(steer.pi.sendUserMessage).toHaveBeenCalledWith("do the thing", { deliverAs: "steer" });
+  });
+
+  it("dropIfBusy discards a fire while the agent runs but delivers when idle", () => {
+    const job = exampleJob({ delivery: "dropIfBusy" });
+    const { pi, storage, scheduler } = busyScheduler(job);
+
+    (scheduler as any).executeJob(job);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1")).toMatchObject({ lastStatus: "dropped", runCount: 0 });
+
+    scheduler.noteAgentEnd();
+    (scheduler as any).executeJob(job);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("waitForIdle holds fires until agent_end and coalesces repeats", () => {
+    const job = exampleJob({ delivery: "waitForIdle" });
+    const { pi, storage, scheduler } = busyScheduler(job);
+
+    (scheduler as any).executeJob(job, "first");
+    (scheduler as any).executeJob(job, "second");
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1").lastStatus).toBe("deferred");
+
+    scheduler.noteAgentEnd();
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(pi.sendUserMessage).toHaveBeenCalledWith("do the thing\n\nfirst", { deliverAs: "followUp" });
+    expect(storage.getJob("job-1")).toMatchObject({ lastStatus: "success", runCount: 1 });
+  });
+
+  it("drops a held fire when the job is disabled meanwhile", () => {
+    const job = exampleJob({ delivery: "waitForIdle" });
+    const { pi, storage, scheduler } = busyScheduler(job);
+
+    (scheduler as any).executeJob(job);
+    storage.updateJob("job-1", { enabled: false });
+    scheduler.updateJob("job-1", storage.getJob("job-1"));
+    expect(storage.getJob("job-1").lastStatus).toBeUndefined();
+
+    scheduler.noteAgentEnd();
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+  });
+
+  it("leaves subagent jobs alone", () => {
+    mockRunSubagentOnce.mockResolvedValue({ ok: true, text: "ok" });
+    const job = exampleJob({ model: "haiku", delivery: "dropIfBusy" });
+    const { storage, scheduler } = busyScheduler(job);
+    (scheduler as any).executeJob(job);
+    expect(storage.getJob("job-1").lastStatus).toBe("running");
+    expect(mockRunSubagentOnce).toHaveBeenCalled();
+  });
+});
+
+describe("CronScheduler — pause", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("skips recurring fires while paused and leaves the job enabled", () => {
+    const job = exampleJob({ type: "interval", schedule: "1m", intervalMs: 60_000 });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+
+    scheduler.pause(new Date(Date.now() + 60 * 60_000));
+    (scheduler as any).executeJob(job);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1")).toMatchObject({ enabled: true, lastStatus: "skipped", runCount: 0 });
+    expect(storage.getJob("job-1").lastSkipReason).toMatch(/^paused until /);
+    expect(pi.events.emit).toHaveBeenCalledWith("cron:change", expect.objectContaining({ type: "pause" }));
+
+    scheduler.resume();
+    expect(scheduler.getPausedUntil()).toBeUndefined();
+    (scheduler as any).executeJob(job);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("ends by itself once pausedUntil passes", () => {
+    vi.useFakeTimers();
+    const job = exampleJob({ type: "interval", schedule: "1m", intervalMs: 60_000 });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    scheduler.pause(new Date(Date.now() + 90_000));
+    vi.advanceTimersByTime(60_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(60_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(scheduler.getPausedUntil()).toBeUndefined();
+    scheduler.stop();
+  });
+
+  it("honours a pause set by another process in the shared store", () => {
+    const job = exampleJob({ type: "interval", schedule: "1m", intervalMs: 60_000 });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+
+    storage.setPausedUntil(new Date(Date.now() + 60_000).toISOString());
+    (scheduler as any).executeJob(job);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+  });
+
+  it("defers a one-shot fire to the end of the pause instead of losing it", () => {
+    vi.useFakeTimers();
+    const job = exampleJob({ schedule: new Date(Date.now() + 10_000).toISOString() });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    scheduler.pause(new Date(Date.now() + 60_000));
+
+    vi.advanceTimersByTime(10_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1")).toMatchObject({ enabled: true, lastStatus: "deferred" });
+
+    vi.advanceTimersByTime(50_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1").enabled).toBe(false);
+    scheduler.stop();
+  });
+
+  it("releases deferred one-shot fires right away on resume", () => {
+    vi.useFakeTimers();
+    const job = exampleJob({ schedule: new Date(Date.now() + 10_000).toISOString() });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    scheduler.pause(new Date(Date.now() + 60_000));
+    vi.advanceTimersByTime(10_000);
+
+    scheduler.resume();
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1").enabled).toBe(false);
+    vi.advanceTimersByTime(60_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+});
+
+describe("CronScheduler — snooze and skip", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function startScheduler(job: CronJob) {
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    return { pi, storage, scheduler };
+  }
+
+  it("skips the next N fires and counts them down", () => {
+    vi.useFakeTimers();
+    const { pi, storage, scheduler } = startScheduler(
+      exampleJob({ type: "interval", schedule: "1m", intervalMs: 60_000 }),
+    );
+    scheduler.skip("job-1", 2);
+
+    vi.advanceTimersByTime(60_000);
+    expect(storage.getJob("job-1")).toMatchObject({ skipCount: 1, lastStatus: "skipped" });
+    vi.advanceTimersByTime(60_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1").skipCount).toBeUndefined();
+    expect(storage.getJob("job-1").lastSkipReason).toBe("skipped on request");
+    vi.advanceTimersByTime(60_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("moves getNextRun past the skipped ticks", () => {
+    vi.useFakeTimers();
+    const { scheduler } = startScheduler(exampleJob({ type: "cron", schedule: "0 * * * * *" }));
+    const next = scheduler.getNextRun("job-1") as Date;
+    scheduler.skip("job-1", 2);
+    expect((scheduler.getNextRun("job-1") as Date).getTime()).toBe(next.getTime() + 2 * 60_000);
+    scheduler.skip("job-1", 0);
+    expect(scheduler.getNextRun("job-1")).toEqual(next);
+    scheduler.stop();
+  });
+
+  it("holds fires until the snooze ends and sends one then", () => {
+    vi.useFakeTimers();
+    const { pi, storage, scheduler } = startScheduler(exampleJob({ type: "cron", schedule: "0 * * * * *" }));
+    const until = new Date(Date.now() + 5 * 60_000 + 30_000);
+    scheduler.snooze("job-1", until);
+    expect(scheduler.getNextRun("job-1")).toEqual(until);
+
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(30_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1").snoozedUntil).toBeUndefined();
+    scheduler.stop();
+  });
+
+  it("snoozeEnd pushes back from the next run, and again from a snooze", () => {
+    vi.useFakeTimers();
+    const { scheduler } = startScheduler(exampleJob({ type: "cron", schedule: "0 0 * * * *" }));
+    const next = scheduler.getNextRun("job-1") as Date;
+    const end = scheduler.snoozeEnd("job-1", 15 * 60_000);
+    expect(end.getTime()).toBe(next.getTime() + 15 * 60_000);
+    scheduler.snooze("job-1", end);
+    expect(scheduler.snoozeEnd("job-1", 15 * 60_000).getTime()).toBe(next.getTime() + 30 * 60_000);
+    scheduler.stop();
+  });
+
+  it("fires a snoozed one-shot job once at the snooze's end, and right away when unsnoozed", () => {
+    vi.useFakeTimers();
+    const { pi, storage, scheduler } = startScheduler(
+      exampleJob({ schedule: new Date(Date.now() + 10_000).toISOString() }),
+    );
+    scheduler.snooze("job-1", new Date(Date.now() + 60_000));
+    vi.advanceTimersByTime(10_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1").enabled).toBe(true);
+
+    scheduler.snooze("job-1", undefined);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1").enabled).toBe(false);
+    vi.advanceTimersByTime(60_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("arms a restarted one-shot job whose time passed during its snooze", () => {
+    vi.useFakeTimers();
+    const { pi, storage, scheduler } = startScheduler(
+      exampleJob({
+        schedule: new Date(Date.now() - 60_000).toISOString(),
+        snoozedUntil: new Date(Date.now() + 60_000).toISOString(),
+      }),
+    );
+    expect(storage.getJob("job-1")).toMatchObject({ enabled: true });
+    expect(storage.getJob("job-1").lastStatus).toBeUndefined();
+    vi.advanceTimersByTime(60_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+});
+
+describe("CronScheduler — run now", () => {
+  beforeEach(() => {
+    mockRunSubagentOnce.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fires right away, counts the run and leaves the schedule alone", () => {
+    vi.useFakeTimers();
+    const job = exampleJob({ type: "cron", schedule: "0 0 * * * *" });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    const next = scheduler.getNextRun("job-1");
+
+    scheduler.runNow("job-1");
+    expect(pi.sendUserMessage).toHaveBeenCalledWith("do the thing", { deliverAs: "followUp" });
+    expect(storage.getJob("job-1")).toMatchObject({ runCount: 1, lastStatus: "success" });
+    expect(scheduler.getNextRun("job-1")).toEqual(next);
+    scheduler.stop();
+  });
+
+  it("ignores pause, snooze, pending skips, a busy agent and the enabled flag", () => {
+    const job = exampleJob({
+      enabled: false,
+      delivery: "dropIfBusy",
+      skipCount: 2,
+      snoozedUntil: new Date(Date.now() + 60_000).toISOString(),
+    });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.pause(new Date(Date.now() + 60_000));
+    scheduler.noteAgentStart();
+
+    scheduler.runNow("job-1");
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1")).toMatchObject({ enabled: false, skipCount: 2, runCount: 1 });
+  });
+
+  it("runs a subagent job inline, or an inline job in a subagent", () => {
+    mockRunSubagentOnce.mockResolvedValue({ ok: true, text: "ok" });
+    const subagentJob = exampleJob({ model: "haiku" });
+    const first = makePi();
+    new CronScheduler(makeStorage([subagentJob]), first, makeCtx()).runNow("job-1", "inline");
+    expect(first.sendUserMessage).toHaveBeenCalledWith("do the thing", { deliverAs: "followUp" });
+    expect(mockRunSubagentOnce).not.toHaveBeenCalled();
+
+    const second = makePi();
+    new CronScheduler(makeStorage([exampleJob()]), second, makeCtx()).runNow("job-1", "subagent", "sonnet");
+    expect(second.sendUserMessage).not.toHaveBeenCalled();
+    expect(mockRunSubagentOnce).toHaveBeenCalledWith(
+      expect.anything(),
+      "do the thing",
+      "sonnet",
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it("throws for a subagent run without a model and for unknown jobs", () => {
+    const scheduler = new CronScheduler(makeStorage([exampleJob()]), makePi(), makeCtx());
+    expect(() => scheduler.runNow("job-1", "subagent")).toThrow(/has no model/);
+    expect(() => scheduler.runNow("nope")).toThrow(/not found/);
+  });
+});
+
+describe("CronScheduler — fire leases", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("claims each timed fire's slot and skips fires another process claimed", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-02T10:00:30Z"));
+    const job = exampleJob({ type: "cron", schedule: "0 * * * * *" });
+    const pi = makePi();
+    const storage = makeStorage([job]);
+    const claims: [string, number][] = [];
+    storage.claimSlot = (jobId: string, slot: number) => {
+      claims.push([jobId, slot]);
+      return claims.length > 1;
+    };
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    vi.advanceTimersByTime(30_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(60_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(claims).toEqual([
+      ["job-1", Date.parse("2026-03-02T10:01:00Z")],
+      ["job-1", Date.parse("2026-03-02T10:02:00Z")],
+    ]);
+    scheduler.stop();
+  });
+
+  it("keys cron fires by the scheduled tick, so two processes with real timers fire each tick once", async () => {
+    const storage = makeStorage([exampleJob({ type: "cron", schedule: "* * * * * *" })]);
+    const claimed = new Set<number>();
+    const slots: number[] = [];
+    storage.claimSlot = (_jobId: string, slot: number) => {
+      slots.push(slot);
+      if (claimed.has(slot)) return false;
+      claimed.add(slot);
+      return true;
+    };
+    const first = makePi();
+    const second = makePi();
+    const schedulers = [
+      new CronScheduler(storage, first, makeCtx()),
+      new CronScheduler(storage, second, makeCtx()),
+    ];
+    for (const scheduler of schedulers) scheduler.start();
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 2_500));
+    } finally {
+      for (const scheduler of schedulers) scheduler.stop();
+    }
+
+    expect(claimed.size).toBeGreaterThanOrEqual(2);
+    expect(slots.every((slot) => slot % 1000 === 0)).toBe(true);
+    const fires = first.sendUserMessage.mock.calls.length + second.sendUserMessage.mock.calls.length;
+    expect(fires).toBe(claimed.size);
+  });
+
+  it("keys one-shot fires by their target time and leaves manual and event fires unclaimed", () => {
+    const at = new Date(Date.now() + 60_000).toISOString();
+    const storage = makeStorage([exampleJob({ schedule: at }), exampleJob({ id: "w", type: "watch", schedule: "*.md" })]);
+    const claimSlot = vi.fn(() => true);
+    storage.claimSlot = claimSlot;
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+
+    (scheduler as any).executeJob(storage.getJob("job-1"));
+    expect(claimSlot).toHaveBeenCalledWith("job-1", Date.parse(at));
+    claimSlot.mockClear();
+    (scheduler as any).executeJob(storage.getJob("w"));
+    scheduler.runNow("job-1");
+    expect(claimSlot).not.toHaveBeenCalled();
+  });
+
+  it("claims a session-bound job's fire once between its pi and an --all-sessions runner", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-02T10:00:30Z") });
+    mockRunSubagentOnce.mockReset();
+    mockRunSubagentOnce.mockResolvedValue({ ok: true, text: "done" } as any);
+    const cwd = mkdtempSync(join(tmpdir(), "pi-schedule-lease-"));
+    const job = exampleJob({ type: "cron", schedule: "0 * * * * *", model: "haiku", session: "test-session" });
+    mkdirSync(join(cwd, ".pi"));
+    writeFileSync(join(cwd, ".pi", "schedule-prompts.json"), JSON.stringify({ version: 1, jobs: [job] }));
+    // Both live in this test's process, so share the claims the way two processes share the lease files.
+    const claimed = new Set<number>();
+    const claimSlot = (_jobId: string, slot: number) => !claimed.has(slot) && !!claimed.add(slot);
+    const piStorage = new CronStorage(cwd);
+    const runnerStorage = new HeadlessStorage(cwd, true);
+    piStorage.claimSlot = claimSlot;
+    runnerStorage.claimSlot = claimSlot;
+    const pi = new CronScheduler(piStorage, makePi(), { ...makeCtx(), cwd });
+    const runner = new CronScheduler(runnerStorage, makePi(), { ...makeCtx(undefined as any), cwd });
+    try {
+      pi.start();
+      runner.start();
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(mockRunSubagentOnce).toHaveBeenCalledTimes(1);
+      expect(claimed).toEqual(new Set([Date.parse("2026-03-02T10:01:00Z")]));
+    } finally {
+      pi.stop();
+      runner.stop();
+      rmSync(cwd, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("CronScheduler — store sync", () => {
+  const cronJob = (overrides: Partial<CronJob> = {}) =>
+    exampleJob({ type: "cron", schedule: "0 * * * * *", ...overrides });
+  const emitted = (pi: any, type: string) =>
+    pi.events.emit.mock.calls.filter(([, event]: [string, any]) => event.type === type);
+
+  it("watches the store from start() until stop()", () => {
+    const storage = makeStorage();
+    const unwatch = vi.fn();
+    storage.watch = vi.fn(() => unwatch);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    scheduler.start();
+    expect(storage.watch).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+    expect(unwatch).toHaveBeenCalledTimes(1);
+  });
+
+  it("arms jobs added to the store by another session", () => {
+    const storage = makeStorage();
+    const pi = makePi();
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    storage.addJob(cronJob());
+    storage.addJob(cronJob({ id: "theirs", session: "other-session" }));
+    scheduler.syncFromStorage();
+    expect(scheduler.getNextRun("job-1")).not.toBeNull();
+    expect(scheduler.getNextRun("theirs")).toBeNull();
+    expect(emitted(pi, "add")).toHaveLength(1);
+    scheduler.stop();
+  });
+
+  it("re-arms changed jobs and unloads disabled, deleted and rebound ones", () => {
+    const storage = makeStorage([cronJob(), cronJob({ id: "job-2" }), cronJob({ id: "job-3" })]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    scheduler.start();
+
+    storage.updateJob("job-1", { schedule: "0 0 * * * *" });
+    storage.updateJob("job-2", { enabled: false });
+    storage.updateJob("job-3", { session: "other-session" });
+    scheduler.syncFromStorage();
+    expect(scheduler.getNextRun("job-1")?.getMinutes()).toBe(0);
+    expect(scheduler.getNextRun("job-2")).toBeNull();
+    expect(scheduler.getNextRun("job-3")).toBeNull();
+
+    storage.removeJob("job-1");
+    scheduler.syncFromStorage();
+    expect(scheduler.getNextRun("job-1")).toBeNull();
+    scheduler.stop();
+  });
+
+  it("leaves jobs alone when only their run stats or this scheduler's own changes were written", () => {
+    const storage = makeStorage([cronJob()]);
+    const pi = makePi();
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    const added = cronJob({ id: "job-2" });
+    storage.addJob(added);
+    scheduler.addJob(added);
+    pi.events.emit.mockClear();
+
+    storage.updateJob("job-1", { runCount: 3, lastRun: new Date().toISOString(), lastStatus: "success" });
+    scheduler.syncFromStorage();
+    expect(pi.events.emit).not.toHaveBeenCalled();
+    scheduler.stop();
+  });
+
+  it("picks up a pause set elsewhere and releases deferred one-shots when it's lifted", () => {
+    vi.useFakeTimers();
+    try {
+      const storage = makeStorage([exampleJob({ schedule: new Date(Date.now() + 10_000).toISOString() })]);
+      const pi = makePi();
+      const scheduler = new CronScheduler(storage, pi, makeCtx());
+      scheduler.start();
+
+      const until = new Date(Date.now() + 60 * 60_000).toISOString();
+      storage.setPausedUntil(until);
+      scheduler.syncFromStorage();
+      expect(emitted(pi, "pause")).toEqual([["cron:change", { type: "pause", pausedUntil: until }]]);
+      vi.advanceTimersByTime(10_000);
+      expect(pi.sendUserMessage).not.toHaveBeenCalled();
+
+      storage.setPausedUntil(undefined);
+      scheduler.syncFromStorage();
+      expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+      scheduler.stop();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("CronScheduler — interval anchors", () => {
+  const intervalJob = (overrides: Partial<CronJob> = {}) =>
+    exampleJob({ type: "interval", schedule: "5m", intervalMs: 5 * 60_000, ...overrides });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2026-03-02T10:00:00Z") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("persists an anchor when an interval job is first armed and reports its next tick", () => {
+    const storage = makeStorage([intervalJob()]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    scheduler.start();
+    expect(storage.getJob("job-1").anchorAt).toBe("2026-03-02T10:00:00.000Z");
+    expect(scheduler.getNextRun("job-1")?.toISOString()).toBe("2026-03-02T10:05:00.000Z");
+    scheduler.stop();
+  });
+
+  it("keeps the original cadence across a restart", () => {
+    const pi = makePi();
+    const storage = makeStorage([intervalJob({ anchorAt: "2026-03-02T09:58:00.000Z" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    expect(scheduler.getNextRun("job-1")?.toISOString()).toBe("2026-03-02T10:03:00.000Z");
+
+    vi.advanceTimersByTime(3 * 60_000 - 1);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(2);
+    expect(scheduler.getNextRun("job-1")?.toISOString()).toBe("2026-03-02T10:13:00.000Z");
+    scheduler.stop();
+  });
+
+  it("fires each tick once, under its own slot, when the timer runs a little early", () => {
+    const pi = makePi();
+    const storage = makeStorage([intervalJob({ anchorAt: "2026-03-02T10:00:00.000Z" })]);
+    const claimSlot = vi.fn(() => true);
+    storage.claimSlot = claimSlot;
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    // The wall clock lags the timer by 2ms: the 10:05 tick fires at 10:04:59.998.
+    vi.setSystemTime(Date.now() - 2);
+    vi.advanceTimersByTime(5 * 60_000);
+    vi.advanceTimersByTime(10);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(claimSlot.mock.calls).toEqual([["job-1", Date.parse("2026-03-02T10:05:00Z")]]);
+    expect(scheduler.getNextRun("job-1")?.toISOString()).toBe("2026-03-02T10:10:00.000Z");
+    scheduler.stop();
+  });
+
+  it("moves the next interval tick past pending skips", () => {
+    const storage = makeStorage([intervalJob({ anchorAt: "2026-03-02T10:00:00.000Z", skipCount: 2 })]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    scheduler.start();
+    expect(scheduler.getNextRun("job-1")?.toISOString()).toBe("2026-03-02T10:15:00.000Z");
+    scheduler.stop();
+  });
+
+  it("reports a one-shot job's target time while it's armed", () => {
+    const at = "2026-03-02T12:00:00.000Z";
+    const storage = makeStorage([exampleJob({ schedule: at }), exampleJob({ id: "job-2", schedule: at, enabled: false })]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+    scheduler.start();
+    expect(scheduler.getNextRun("job-1")?.toISOString()).toBe(at);
+    expect(scheduler.getNextRun("job-2")).toBeNull();
+    scheduler.stop();
+  });
+});
+
+describe("CronScheduler — long timers", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2026-03-02T10:00:00Z") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fires a +40d one-shot job at its time, not early, across re-arms", () => {
+    const at = new Date(Date.now() + 40 * DAY).toISOString();
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ schedule: at })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    vi.advanceTimersByTime(MAX_TIMEOUT_MS + 1);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(scheduler.getNextRun("job-1")?.toISOString()).toBe(at);
+    vi.advanceTimersByTime(40 * DAY - MAX_TIMEOUT_MS - 2);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1").enabled).toBe(false);
+    scheduler.stop();
+  });
+
+  it("cancels a long one-shot job between re-arms", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ schedule: new Date(Date.now() + 40 * DAY).toISOString() })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    vi.advanceTimersByTime(30 * DAY);
+    scheduler.removeJob("job-1");
+    vi.advanceTimersByTime(20 * DAY);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+  });
+
+  it("ticks intervals longer than the timer limit once per interval", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ type: "interval", schedule: "30d", intervalMs: 30 * DAY })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    vi.advanceTimersByTime(30 * DAY - 1);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(30 * DAY);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("holds a snooze longer than the timer limit until it ends", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ type: "interval", schedule: "1h", intervalMs: 60 * 60_000 })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    scheduler.snooze("job-1", new Date(Date.now() + 40 * DAY + 30 * 60_000));
+
+    vi.advanceTimersByTime(40 * DAY + 30 * 60_000 - 1);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("waits out an idle threshold longer than the timer limit", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ type: "idle", schedule: "40d", intervalMs: 40 * DAY })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    vi.advanceTimersByTime(40 * DAY - 1);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("times a subagent run out no earlier than a timeout beyond the timer limit", async () => {
+    let signal: AbortSignal | undefined;
+    mockRunSubagentOnce.mockReset();
+    mockRunSubagentOnce.mockImplementation(((_ctx: unknown, _prompt: string, _model: unknown, s: AbortSignal) => {
+      signal = s;
+      return new Promise(() => {});
+    }) as any);
+    const storage = makeStorage([exampleJob({ model: "haiku", timeoutMs: 30 * DAY })]);
+    const scheduler = new CronScheduler(storage, makePi(), makeCtx());
+
+    scheduler.runNow("job-1");
+    await vi.advanceTimersByTimeAsync(30 * DAY - 1);
+    expect(signal?.aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(signal?.aborted).toBe(true);
+    scheduler.stop();
+  });
+});
+
+describe("CronScheduler — drift monitor", () => {
+  const EVENING = new Date("2026-03-02T22:30:00Z");
+  const HOUR = 60 * 60_000;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: EVENING });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // The machine suspends: the wall clock moves on, timers don't.
+  function sleepFor(ms: number) {
+    vi.setSystemTime(Date.now() + ms);
+    vi.advanceTimersByTime(DRIFT_CHECK_MS);
+  }
+
+  it("catches up a run slept through per runOnce and records how late it fired", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ type: "cron", schedule: "0 0 * * * *", misfirePolicy: "runOnce" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    sleepFor(8 * HOUR);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    const late = Date.parse("2026-03-03T06:30:10Z") - Date.parse("2026-03-02T23:00:00Z");
+    expect(storage.getJob("job-1").lateByMs).toBe(late);
+    expect(pi.sendMessage.mock.calls[0][0].details.lateByMs).toBe(late);
+
+    // Re-armed against the wall clock: the 07:00 tick is on time and clears the note.
+    vi.advanceTimersByTime(30 * 60_000);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(2);
+    expect(storage.getJob("job-1").lateByMs).toBeUndefined();
+    scheduler.stop();
+  });
+
+  it("fires a one-shot reminder slept through once, late, and disables it", () => {
+    const pi = makePi();
+    const storage = makeStorage([
+      exampleJob({ schedule: "2026-03-03T02:00:00.000Z", misfirePolicy: "runOnce" }),
+    ]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    sleepFor(8 * HOUR);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    expect(storage.getJob("job-1")).toMatchObject({ enabled: false });
+    expect(describeLateness(storage.getJob("job-1").lateByMs)).toBe("fired 5h late after sleep");
+    vi.advanceTimersByTime(24 * HOUR);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("records a one-shot slept through under skip as skipped, not as an error", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ schedule: "2026-03-03T02:00:00.000Z" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    sleepFor(8 * HOUR);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1")).toMatchObject({
+      enabled: false,
+      lastStatus: "skipped",
+      lastSkipReason: "missed during sleep",
+    });
+    expect(pi.events.emit).not.toHaveBeenCalledWith("cron:change", expect.objectContaining({ type: "error" }));
+    scheduler.stop();
+  });
+
+  it("drops runs slept through under skip and records them as the skip reason", () => {
+    const pi = makePi();
+    const storage = makeStorage([
+      exampleJob({ type: "interval", schedule: "1h", intervalMs: HOUR, anchorAt: "2026-03-02T22:15:00.000Z" }),
+    ]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    sleepFor(3 * HOUR);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1")).toMatchObject({
+      lastStatus: "skipped",
+      lastSkipReason: "missed 3 run(s) during sleep",
+    });
+    expect(scheduler.getNextRun("job-1")?.toISOString()).toBe("2026-03-03T02:15:00.000Z");
+    scheduler.stop();
+  });
+
+  it("checks the clock before croner fires a slept-through tick ahead of the drift monitor", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ type: "cron", schedule: "0 0 * * * *" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    vi.advanceTimersByTime(25_000);
+
+    // croner's 30s re-check comes round 5s after the wake, before the next drift tick.
+    vi.setSystemTime(Date.now() + 8 * HOUR);
+    vi.advanceTimersByTime(5_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    expect(storage.getJob("job-1").lastStatus).toBe("skipped");
+    expect(storage.getJob("job-1").lastRun).toBeUndefined();
+    scheduler.stop();
+  });
+
+  it("re-arms timers when the clock is set back, so nothing fires early", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ schedule: "2026-03-03T00:30:00.000Z" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+
+    vi.setSystemTime(Date.now() - HOUR);
+    vi.advanceTimersByTime(DRIFT_CHECK_MS);
+    vi.advanceTimersByTime(2 * HOUR - DRIFT_CHECK_MS);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(HOUR);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("releases a snooze that ended during sleep on wake", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ type: "cron", schedule: "0 45 22 * * *" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    scheduler.snooze("job-1", new Date("2026-03-02T23:30:00Z"));
+    vi.advanceTimersByTime(15 * 60_000);
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+
+    sleepFor(8 * HOUR);
+    vi.advanceTimersByTime(1);
+    expect(pi.sendUserMessage).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("ignores ordinary timer jitter", () => {
+    const pi = makePi();
+    const storage = makeStorage([exampleJob({ type: "cron", schedule: "0 0 * * * *", misfirePolicy: "runOnce" })]);
+    const scheduler = new CronScheduler(storage, pi, makeCtx());
+    scheduler.start();
+    sleepFor(5_000);
+    expect(storage.getJob("job-1").lastStatus).toBeUndefined();
+    expect(pi.sendUserMessage).not.toHaveBeenCalled();
+    scheduler.stop();
+  });
+
+  it("formatLateness rounds to minutes, hours or days", () => {
+    expect(formatLateness(20_000)).toBe("1m");
+    expect(formatLateness(45 * 60_000)).toBe("45m");
+    expect(formatLateness(3 * HOUR + 10 * 60_000)).toBe("3h");
+    expect(formatLateness(50 * HOUR)).toBe("2d");
+  });
+});
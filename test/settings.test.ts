@@ -96,3 +96,64 @@ describe("saveSettings — partial update", () => {
     expect(readProjectFile()).toEqual({ widgetVisible: true });
   });
 });
+
+describe("ScheduleSettings — quietHours", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "pi-schedule-settings-"));
+    mkdirSync(join(cwd, ".pi"), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  function writeProjectSettings(raw: unknown) {
+    writeFileSync(join(cwd, ".pi", "schedule-prompts-settings.json"), JSON.stringify(raw), "utf-8");
+  }
+
+  it("loads a valid quietHours config", () => {
+    writeProjectSettings({ quietHours: { windows: [{ start: "22:00", end: "07:00" }], action: "drop" } });
+    expect(loadSettings(cwd).quietHours).toEqual({
+      windows: [{ start: "22:00", end: "07:00" }],
+      action: "drop",
+    });
+  });
+
+  it("drops a malformed quietHours config but keeps the other settings", () => {
+    writeProjectSettings({ widgetVisible: false, quietHours: { windows: [{ start: "late", end: "early" }] } });
+    const s = loadSettings(cwd);
+    expect(s.quietHours).toBeUndefined();
+    expect(s.widgetVisible).toBe(false);
+  });
+});
+
+describe("ScheduleSettings — defaultTimeoutMs", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), "pi-schedule-settings-"));
+    mkdirSync(join(cwd, ".pi"), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  function writeProjectSettings(raw: unknown) {
+    writeFileSync(join(cwd, ".pi", "schedule-prompts-settings.json"), JSON.stringify(raw), "utf-8");
+  }
+
+  it("accepts a positive integer", () => {
+    writeProjectSettings({ defaultTimeoutMs: 600000 });
+    expect(loadSettings(cwd).defaultTimeoutMs).toBe(600000);
+  });
+
+  it("drops zero, negative and non-integer values", () => {
+    for (const bad of [0, -5, 1.5, "10m"]) {
+      writeProjectSettings({ defaultTimeoutMs: bad });
+      expect(loadSettings(cwd).defaultTimeoutMs).toBeUndefined();
+    }
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { createCronTool } from "../src/tool.js";
 import type { CronJob } from "../src/types.js";
 
@@ -25,11 +25,23 @@ function makeStorage(seedJobs: CronJob[] = []) {
 // Scheduler stub: tool calls addJob/removeJob/updateJob/getNextRun. None of these
 // matter for validation tests — they're invoked only after validation passes.
 function makeScheduler() {
+  let pausedUntil: Date | undefined;
   return {
     addJob: () => {},
     removeJob: () => {},
     updateJob: () => {},
     getNextRun: () => null,
+    getPausedUntil: () => pausedUntil,
+    pause: (until: Date) => {
+      pausedUntil = until;
+    },
+    resume: () => {
+      pausedUntil = undefined;
+    },
+    snooze: vi.fn(),
+    skip: vi.fn(),
+    runNow: vi.fn(),
+    snoozeEnd: (_jobId: string, ms: number) => new Date(Date.now() + ms),
   } as any;
 }
 
@@ -56,7 +68,7 @@ function buildTool(
     () => scheduler,
     getDefaultScope,
   );
-  return { tool, storage };
+  return { tool, storage, scheduler };
 }
 
 function exampleJob(overrides: Partial<CronJob> = {}): CronJob {
@@ -204,6 +216,21 @@ describe("schedule_prompt — notify behavior", () => {
       );
       expect(result.details?.error).toContain("'model' must be a non-empty string");
     });
+
+    it("re-anchors an interval job whose schedule changes", async () => {
+      const { tool, storage } = buildTool([
+        exampleJob({ id: "j5", type: "interval", schedule: "5m", intervalMs: 300_000, anchorAt: "2026-01-01T00:00:00.000Z" }),
+      ]);
+      const result = await tool.execute(
+        "call",
+        { action: "update", jobId: "j5", schedule: "10m" } as any,
+        undefined,
+        undefined,
+        makeCtx(),
+      );
+      expect(result.details?.error).toBeUndefined();
+      expect(storage.getJob("j5")).toMatchObject({ intervalMs: 600_000, anchorAt: undefined });
+    });
   });
 
   describe("add — empty model rejection", () => {
@@ -474,3 +501,526 @@ describe("schedule_prompt — extensions/skills", () => {
     });
   });
 });
+
+describe("schedule_prompt — timezone", () => {
+  it("add stores a valid timezone on the job", async () => {
+    const { tool, storage } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", schedule: "0 0 9 * * *", prompt: "hi", timezone: "Europe/Berlin" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    const id = result.details?.jobs?.[0].id as string;
+    expect(storage.getJob(id).timezone).toBe("Europe/Berlin");
+  });
+
+  it("add rejects an unknown timezone", async () => {
+    const { tool } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", schedule: "0 0 9 * * *", prompt: "hi", timezone: "Nowhere/Land" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toContain("Unknown timezone");
+  });
+
+  it("update with an empty timezone clears it", async () => {
+    const { tool, storage } = buildTool([
+      exampleJob({ id: "tz1", type: "cron", schedule: "0 0 9 * * *", timezone: "Europe/Berlin" }),
+    ]);
+    const result = await tool.execute(
+      "call",
+      { action: "update", jobId: "tz1", timezone: "" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    expect(storage.getJob("tz1").timezone).toBeUndefined();
+  });
+});
+
+describe("schedule_prompt — natural-language schedules", () => {
+  it("add resolves a phrase and stores the type it implies", async () => {
+    const { tool, storage } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", schedule: "in 20 minutes", prompt: "hi" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    const job = storage.getJob(result.details?.jobs?.[0].id as string);
+    expect(job.type).toBe("once");
+    expect(Number.isNaN(new Date(job.schedule).getTime())).toBe(false);
+  });
+
+  it("update can move a job to the type the phrase implies", async () => {
+    const { tool, storage } = buildTool([
+      exampleJob({ id: "nl1", type: "once", schedule: "2099-01-01T00:00:00.000Z" }),
+    ]);
+    const result = await tool.execute(
+      "call",
+      { action: "update", jobId: "nl1", schedule: "every weekday at 9am" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    expect(storage.getJob("nl1").type).toBe("cron");
+    expect(storage.getJob("nl1").schedule).toBe("0 0 9 * * 1-5");
+  });
+});
+
+describe("schedule_prompt — run limits", () => {
+  it("add stores maxRuns and resolves startAt/endAt to ISO", async () => {
+    const { tool, storage } = buildTool();
+    const result = await tool.execute(
+      "call",
+      {
+        action: "add",
+        schedule: "10m",
+        type: "interval",
+        prompt: "hi",
+        maxRuns: 6,
+        startAt: "+1h",
+        endAt: "2099-01-01T00:00:00Z",
+      } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    const job = storage.getJob(result.details?.jobs?.[0].id as string);
+    expect(job.maxRuns).toBe(6);
+    expect(new Date(job.startAt).getTime()).toBeGreaterThan(Date.now());
+    expect(job.endAt).toBe("2099-01-01T00:00:00.000Z");
+  });
+
+  it("add rejects an endAt in the past or before startAt", async () => {
+    const { tool } = buildTool();
+    const past = await tool.execute(
+      "call",
+      { action: "add", schedule: "0 0 9 * * *", prompt: "hi", endAt: "2020-01-01T00:00:00Z" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(past.details?.error).toContain("endAt is in the past");
+
+    const inverted = await tool.execute(
+      "call",
+      { action: "add", schedule: "0 0 9 * * *", prompt: "hi", startAt: "+2d", endAt: "+1d" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(inverted.details?.error).toContain("must be after startAt");
+  });
+
+  it("update with maxRuns 0 and empty endAt removes the limits", async () => {
+    const { tool, storage } = buildTool([
+      exampleJob({
+        id: "lim1",
+        type: "cron",
+        schedule: "0 0 9 * * *",
+        maxRuns: 3,
+        endAt: "2099-01-01T00:00:00.000Z",
+      }),
+    ]);
+    const result = await tool.execute(
+      "call",
+      { action: "update", jobId: "lim1", maxRuns: 0, endAt: "" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    expect(storage.getJob("lim1").maxRuns).toBeUndefined();
+    expect(storage.getJob("lim1").endAt).toBeUndefined();
+  });
+});
+
+describe("schedule_prompt — retry", () => {
+  it("add stores the retry policy and rejects a bad backoff", async () => {
+    const { tool, storage } = buildTool();
+    const ok = await tool.execute(
+      "call",
+      { action: "add", schedule: "0 0 9 * * *", prompt: "hi", model: "haiku", retry: { attempts: 3, backoff: "1m" } } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(ok.details?.error).toBeUndefined();
+    expect(storage.getJob(ok.details?.jobs?.[0].id as string).retry).toEqual({ attempts: 3, backoff: "1m" });
+
+    const bad = await tool.execute(
+      "call",
+      { action: "add", name: "other", schedule: "0 0 9 * * *", prompt: "hi", retry: { attempts: 3, backoff: "soon" } } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(bad.details?.error).toContain("Invalid retry backoff");
+  });
+
+  it("update with attempts 0 removes the policy", async () => {
+    const { tool, storage } = buildTool([
+      exampleJob({ id: "r1", type: "cron", schedule: "0 0 9 * * *", model: "haiku", retry: { attempts: 2 } }),
+    ]);
+    const result = await tool.execute(
+      "call",
+      { action: "update", jobId: "r1", retry: { attempts: 0 } } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    expect(storage.getJob("r1").retry).toBeUndefined();
+  });
+});
+
+describe("schedule_prompt — job chaining", () => {
+  it("add with 'after' creates a chained job without a schedule", async () => {
+    const { tool, storage } = buildTool([exampleJob({ id: "up", type: "cron", schedule: "0 0 * * * *" })]);
+    const result = await tool.execute(
+      "call",
+      { action: "add", name: "digest", after: "up", chainOn: "always", passOutput: true, prompt: "post digest" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    const job = storage.getJob(result.details?.jobs?.[0].id as string);
+    expect(job.type).toBe("after");
+    expect(job.schedule).toBe("up");
+    expect(job.chainOn).toBe("always");
+    expect(job.passOutput).toBe(true);
+  });
+
+  it("add rejects an unknown upstream", async () => {
+    const { tool } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", after: "nope", prompt: "hi" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toContain("Upstream job not found");
+  });
+
+  it("update rejects a chain that would loop back to the job", async () => {
+    const { tool, storage } = buildTool([
+      exampleJob({ id: "a", name: "a", type: "cron", schedule: "0 0 * * * *" }),
+      exampleJob({ id: "b", name: "b", type: "after", schedule: "a" }),
+      exampleJob({ id: "c", name: "c", type: "after", schedule: "b" }),
+    ]);
+    const result = await tool.execute(
+      "call",
+      { action: "update", jobId: "a", after: "c" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toContain("cycle: a → c → b → a");
+    expect(storage.getJob("a").type).toBe("cron");
+
+    const self = await tool.execute(
+      "call",
+      { action: "update", jobId: "b", after: "b" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(self.details?.error).toContain("cycle");
+  });
+
+  it("update with a schedule turns a chained job back into a timed one", async () => {
+    const { tool, storage } = buildTool([
+      exampleJob({ id: "up", type: "cron", schedule: "0 0 * * * *" }),
+      exampleJob({ id: "down", type: "after", schedule: "up" }),
+    ]);
+    const result = await tool.execute(
+      "call",
+      { action: "update", jobId: "down", schedule: "0 30 9 * * *" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    expect(storage.getJob("down").type).toBe("cron");
+    expect(storage.getJob("down").schedule).toBe("0 30 9 * * *");
+  });
+});
+
+describe("schedule_prompt — watch jobs", () => {
+  it("add with 'watch' creates a watch job labelled with its patterns", async () => {
+    const { tool, storage } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", name: "review", watch: [" src/**/*.ts ", "logs/*.log", ""], debounceMs: 5000, prompt: "review" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    const job = storage.getJob(result.details?.jobId as string);
+    expect(job.type).toBe("watch");
+    expect(job.watch).toEqual(["src/**/*.ts", "logs/*.log"]);
+    expect(job.schedule).toBe("src/**/*.ts, logs/*.log");
+    expect(job.debounceMs).toBe(5000);
+  });
+
+  it("rejects an empty pattern list and a second trigger", async () => {
+    const { tool } = buildTool();
+    const empty = await tool.execute(
+      "call",
+      { action: "add", watch: [" "], prompt: "review" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(empty.details?.error).toContain("at least one glob pattern");
+
+    const both = await tool.execute(
+      "call",
+      { action: "add", watch: ["*.md"], schedule: "5m", prompt: "review" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(both.details?.error).toContain("Pass only one of");
+  });
+
+  it("update with a schedule turns a watch job into a timed one and drops its patterns", async () => {
+    const { tool, storage } = buildTool([
+      exampleJob({ id: "w1", type: "watch", schedule: "*.md", watch: ["*.md"] }),
+    ]);
+    const result = await tool.execute(
+      "call",
+      { action: "update", jobId: "w1", schedule: "0 30 9 * * *" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    expect(storage.getJob("w1").type).toBe("cron");
+    expect(storage.getJob("w1").watch).toBeUndefined();
+  });
+});
+
+describe("schedule_prompt — idle jobs", () => {
+  it("add with 'idle' stores the threshold", async () => {
+    const { tool, storage } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", name: "recap", idle: "20m", prompt: "summarise where we are" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    const job = storage.getJob(result.details?.jobId as string);
+    expect(job.type).toBe("idle");
+    expect(job.schedule).toBe("20m");
+    expect(job.intervalMs).toBe(20 * 60_000);
+  });
+
+  it("rejects a threshold that isn't a duration", async () => {
+    const { tool } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", idle: "a while", prompt: "recap" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toContain("Invalid idle threshold");
+  });
+});
+
+describe("schedule_prompt — lifecycle jobs", () => {
+  it("add with 'lifecycle' creates a job of that trigger type", async () => {
+    const { tool, storage } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", name: "bye", lifecycle: "onShutdown", prompt: "write a handoff note" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(result.details?.error).toBeUndefined();
+    const job = storage.getJob(result.details?.jobId as string);
+    expect(job.type).toBe("onShutdown");
+    expect(job.session).toBe("test-session");
+  });
+
+  it("never binds onSessionStart jobs to the creating session", async () => {
+    const { tool, storage } = buildTool();
+    const result = await tool.execute(
+      "call",
+      { action: "add", name: "hello", lifecycle: "onSessionStart", prompt: "read TODO.md" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(storage.getJob(result.details?.jobId as string).session).toBeUndefined();
+  });
+});
+
+describe("schedule_prompt — git jobs", () => {
+  it("add with 'git' watches the named branch, or HEAD when blank", async () => {
+    const { tool, storage } = buildTool();
+    const named = await tool.execute(
+      "call",
+      { action: "add", name: "review", git: "main", model: "haiku", prompt: "review {{newSha}}" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(storage.getJob(named.details?.jobId as string)).toMatchObject({ type: "git", schedule: "main" });
+
+    const head = await tool.execute(
+      "call",
+      { action: "add", name: "any", git: " ", prompt: "review" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    expect(storage.getJob(head.details?.jobId as string)).toMatchObject({ type: "git", schedule: "HEAD" });
+  });
+});
+
+describe("schedule_prompt — when preconditions", () => {
+  it("stores 'when' on add and clears it with an empty string on update", async () => {
+    const { tool, storage } = buildTool();
+    const added = await tool.execute(
+      "call",
+      { action: "add", name: "fix", schedule: "30m", type: "interval", when: "! npm test", prompt: "fix the failing tests" } as any,
+      undefined,
+      undefined,
+      makeCtx(),
+    );
+    const id = added.details?.jobId as string;
+    expect(storage.getJob(id).when).toBe("! npm test");
+
+    await tool.execute("call", { action: "update", jobId: id, when: "" } as any, undefined, undefined, makeCtx());
+    expect(storage.getJob(id).when).toBeUndefined();
+  });
+});
+
+describe("schedule_prompt — pause / resume", () => {
+  it("pauses for an hour by default", async () => {
+    const { tool, scheduler } = buildTool();
+    const before = Date.now();
+    const result = await tool.execute("call", { action: "pause" } as any, undefined, undefined, makeCtx());
+    expect(result.details?.error).toBeUndefined();
+    const until = scheduler.getPausedUntil() as Date;
+    expect(until.getTime()).toBeGreaterThanOrEqual(before + 60 * 60_000);
+    expect(until.getTime()).toBeLessThan(before + 61 * 60_000);
+  });
+
+  it("accepts a duration or a point in time for 'until'", async () => {
+    const { tool, scheduler } = buildTool();
+    await tool.execute("call", { action: "pause", until: "30m" } as any, undefined, undefined, makeCtx());
+    expect((scheduler.getPausedUntil() as Date).getTime() - Date.now()).toBeLessThanOrEqual(30 * 60_000);
+
+    const at = new Date(Date.now() + 2 * 60 * 60_000).toISOString();
+    await tool.execute("call", { action: "pause", until: at } as any, undefined, undefined, makeCtx());
+    expect((scheduler.getPausedUntil() as Date).toISOString()).toBe(at);
+
+    await tool.execute("call", { action: "pause", until: "23:59" } as any, undefined, undefined, makeCtx());
+    const clock = scheduler.getPausedUntil() as Date;
+    expect(clock.getHours()).toBe(23);
+    expect(clock.getMinutes()).toBe(59);
+  });
+
+  it("rejects an unparseable or past 'until'", async () => {
+    const { tool, scheduler } = buildTool();
+    const bad = await tool.execute("call", { action: "pause", until: "whenever" } as any, undefined, undefined, makeCtx());
+    expect(bad.details?.error).toMatch(/Invalid pause end/);
+    const past = await tool.execute("call", { action: "pause", until: "2000-01-01T00:00:00Z" } as any, undefined, undefined, makeCtx());
+    expect(past.details?.error).toMatch(/in the past/);
+    expect(scheduler.getPausedUntil()).toBeUndefined();
+  });
+
+  it("resumes, and lists the pause while it lasts", async () => {
+    const { tool, scheduler } = buildTool([exampleJob({ id: "j1" })]);
+    await tool.execute("call", { action: "pause" } as any, undefined, undefined, makeCtx());
+    const listed = await tool.execute("call", { action: "list" } as any, undefined, undefined, makeCtx());
+    expect((listed.content[0] as any).text).toContain("All jobs paused until");
+
+    const resumed = await tool.execute("call", { action: "resume" } as any, undefined, undefined, makeCtx());
+    expect((resumed.content[0] as any).text).toContain("Resumed");
+    expect(scheduler.getPausedUntil()).toBeUndefined();
+  });
+});
+
+describe("schedule_prompt — snooze / skip", () => {
+  it("skips the next fire by default, or 'count' fires", async () => {
+    const { tool, scheduler } = buildTool([exampleJob({ id: "j1" })]);
+    const result = await tool.execute("call", { action: "skip", jobId: "j1" } as any, undefined, undefined, makeCtx());
+    expect(result.details?.error).toBeUndefined();
+    expect(scheduler.skip).toHaveBeenLastCalledWith("j1", 1);
+
+    await tool.execute("call", { action: "skip", jobId: "j1", count: 3 } as any, undefined, undefined, makeCtx());
+    expect(scheduler.skip).toHaveBeenLastCalledWith("j1", 3);
+  });
+
+  it("snoozes by a duration or until a time, and '' ends the snooze", async () => {
+    const { tool, scheduler } = buildTool([exampleJob({ id: "j1" })]);
+    const before = Date.now();
+    await tool.execute("call", { action: "snooze", jobId: "j1", until: "15m" } as any, undefined, undefined, makeCtx());
+    const byDuration = scheduler.snooze.mock.calls[0][1] as Date;
+    expect(byDuration.getTime()).toBeGreaterThanOrEqual(before + 15 * 60_000);
+
+    const at = new Date(Date.now() + 3 * 60 * 60_000).toISOString();
+    await tool.execute("call", { action: "snooze", jobId: "j1", until: at } as any, undefined, undefined, makeCtx());
+    expect((scheduler.snooze.mock.calls[1][1] as Date).toISOString()).toBe(at);
+
+    await tool.execute("call", { action: "snooze", jobId: "j1", until: "" } as any, undefined, undefined, makeCtx());
+    expect(scheduler.snooze).toHaveBeenLastCalledWith("j1", undefined);
+  });
+
+  it("needs 'until' for snooze and rejects disabled or unknown jobs", async () => {
+    const { tool, scheduler } = buildTool([exampleJob({ id: "j1" }), exampleJob({ id: "off", name: "off", enabled: false })]);
+    const noUntil = await tool.execute("call", { action: "snooze", jobId: "j1" } as any, undefined, undefined, makeCtx());
+    expect(noUntil.details?.error).toMatch(/until is required/);
+    const disabled = await tool.execute("call", { action: "skip", jobId: "off" } as any, undefined, undefined, makeCtx());
+    expect(disabled.details?.error).toMatch(/disabled/);
+    const missing = await tool.execute("call", { action: "skip", jobId: "nope" } as any, undefined, undefined, makeCtx());
+    expect(missing.details?.error).toMatch(/Job not found/);
+    expect(scheduler.skip).not.toHaveBeenCalled();
+  });
+});
+
+describe("schedule_prompt — run", () => {
+  it("runs the job now, optionally switching its mode", async () => {
+    const { tool, scheduler } = buildTool([exampleJob({ id: "j1", model: "haiku" })]);
+    const result = await tool.execute("call", { action: "run", jobId: "j1" } as any, undefined, undefined, makeCtx());
+    expect(result.details?.error).toBeUndefined();
+    expect((result.content[0] as any).text).toContain("in a subagent (haiku)");
+    expect(scheduler.runNow).toHaveBeenLastCalledWith("j1", undefined, undefined);
+
+    const inline = await tool.execute("call", { action: "run", jobId: "j1", runAs: "inline" } as any, undefined, undefined, makeCtx());
+    expect((inline.content[0] as any).text).toContain("inline");
+    expect(scheduler.runNow).toHaveBeenLastCalledWith("j1", "inline", undefined);
+  });
+
+  it("refuses to run from within a scheduled prompt", async () => {
+    const { tool, scheduler } = buildTool([exampleJob({ id: "j1" })]);
+    const ctx = makeCtx();
+    ctx.sessionManager.getEntries = () => [{ type: "custom", customType: "scheduled_prompt" }];
+    await expect(
+      tool.execute("call", { action: "run", jobId: "j1" } as any, undefined, undefined, ctx),
+    ).rejects.toThrow(/Cannot run scheduled prompts/);
+    expect(scheduler.runNow).not.toHaveBeenCalled();
+  });
+});